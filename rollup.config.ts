@@ -18,6 +18,12 @@ const commonInput = {
   plugins: [nodeResolvePlugin(), jsonPlugin(), typescriptPlugin()],
 }
 
+// The entry point for servers, it's published as `@fingerprintjs/fingerprintjs/server`
+const serverInput = {
+  ...commonInput,
+  input: 'src/server.ts',
+}
+
 const commonOutput = {
   name: 'FingerprintJS',
   exports: 'named' as const,
@@ -101,6 +107,33 @@ const config: RollupOptions[] = [
       format: 'esm',
     },
   },
+
+  // Server NPM bundles. There are no browser bundles because browsers have the full library.
+  {
+    ...serverInput,
+    external: Object.keys(dependencies),
+    output: [
+      {
+        ...commonOutput,
+        file: `${outputDirectory}/fp.server.cjs.js`,
+        format: 'cjs',
+      },
+      {
+        ...commonOutput,
+        file: `${outputDirectory}/fp.server.esm.js`,
+        format: 'esm',
+      },
+    ],
+  },
+  {
+    ...serverInput,
+    plugins: [dtsPlugin()],
+    output: {
+      ...commonOutput,
+      file: `${outputDirectory}/fp.server.d.ts`,
+      format: 'esm',
+    },
+  },
 ]
 
 export default config
@@ -1,8 +1,14 @@
 import { version } from '../package.json'
-import { load as loadAgent } from './agent'
+import { withMockProperties } from '../tests/utils'
+import { load as loadAgent, RefreshEvent, StreamItem } from './agent'
+import { hashComponents } from './components'
+import { hashers } from './hashers'
+import { simHashComponents } from './similarity'
+import { checkValue, currentSchemaVersion, getSourceSchemas } from './schema'
 import { sources } from './sources'
 import { isSourceLoaded } from './sources/cpu_class'
 import { wait } from './utils/async'
+import { UnknownComponents } from './utils/entropy_source'
 
 describe('Agent', () => {
   it('collects all components without unexpected errors and makes visitorId', async () => {
@@ -13,6 +19,7 @@ describe('Agent', () => {
     expect(typeof result.confidence.score).toBe('number')
     expect(typeof result.confidence.comment).toBe('string')
     expect(result.version).toBe(version)
+    expect(result.schemaVersion).toBe(currentSchemaVersion)
 
     const expectedComponents = Object.keys(sources).sort() as Array<keyof typeof sources>
     expect(expectedComponents.length).toBeGreaterThan(10) // To check the test itself
@@ -22,6 +29,9 @@ describe('Agent', () => {
       expect('error' in component ? component.error : undefined)
         .withContext(`Unexpected error in the "${componentName}" component`)
         .toBeUndefined()
+      expect('value' in component ? checkValue(component.value, getSourceSchemas()?.[componentName] || {}) : undefined)
+        .withContext(`The "${componentName}" component doesn't match the schema`)
+        .toBeUndefined()
     }
   })
 
@@ -37,4 +47,239 @@ describe('Agent', () => {
     expect(isSourceLoaded.x).withContext('Entropy sources are not loaded').toBeTrue()
     await agent.get() // To wait until the background processes complete
   })
+  it('excludes sources', async () => {
+    const agent = await loadAgent({ delayFallback: 0, excludeSources: ['fonts', 'audio'] })
+    const result = await agent.get()
+    const expectedComponents = Object.keys(sources)
+      .filter((key) => key !== 'fonts' && key !== 'audio')
+      .sort()
+    expect(Object.keys(result.components).sort()).toEqual(expectedComponents)
+  })
+
+  it('runs only the included sources', async () => {
+    const agent = await loadAgent({ delayFallback: 0, includeOnly: ['platform', 'timezone', 'math'] })
+    const result = await agent.get()
+    expect(Object.keys(result.components)).toEqual(['timezone', 'platform', 'math'])
+  })
+
+  it('adds custom sources', async () => {
+    const agent = await loadAgent({
+      delayFallback: 0,
+      includeOnly: ['platform', 'foo', 'bar'],
+      customSources: {
+        foo: () => 'Foo',
+        bar: () => () => wait(5, 'Bar'),
+      },
+    })
+    const result = await agent.get()
+    const components = result.components as UnknownComponents
+    expect(Object.keys(components)).toEqual(['platform', 'foo', 'bar'])
+    expect(components.foo).toEqual({ value: 'Foo', duration: jasmine.any(Number) })
+    expect(components.bar).toEqual({ value: 'Bar', duration: jasmine.any(Number) })
+    expect(result.visitorId).toBe(hashComponents(components))
+  })
+
+  it('makes tiered visitor identifiers', async () => {
+    const agent = await loadAgent({ delayFallback: 0, includeOnly: ['platform', 'timezone', 'math'] })
+    const result = await agent.get()
+    const { platform, timezone, math } = result.components
+    expect(Object.keys(result.visitorIds)).toEqual(['core', 'full'])
+    expect(result.visitorIds.core).toBe(hashComponents({ platform, math }))
+    expect(result.visitorIds.full).toBe(result.visitorId)
+    expect(result.visitorIds.core).not.toBe(hashComponents({ platform, math, timezone }))
+  })
+
+  it('makes custom visitor identifier tiers', async () => {
+    const agent = await loadAgent({
+      delayFallback: 0,
+      includeOnly: ['platform', 'timezone', 'math'],
+      tiers: { place: ['timezone'], all: 'all' },
+    })
+    const result = await agent.get()
+    expect(Object.keys(result.visitorIds)).toEqual(['place', 'all'])
+    expect(result.visitorIds.place).toBe(hashComponents({ timezone: result.components.timezone }))
+    expect(result.visitorIds.all).toBe(result.visitorId)
+  })
+
+  it('makes salted visitor identifiers', async () => {
+    const includeOnly = ['platform', 'timezone', 'math']
+    const result = await (await loadAgent({ delayFallback: 0, includeOnly })).get()
+    const saltedResult = await (await loadAgent({ delayFallback: 0, includeOnly, salt: 'Brand 1' })).get()
+    const { platform, math } = saltedResult.components
+    expect(saltedResult.visitorId).toBe(hashComponents(saltedResult.components, undefined, 'Brand 1'))
+    expect(saltedResult.visitorId).not.toBe(result.visitorId)
+    expect(saltedResult.visitorIds.core).toBe(hashComponents({ platform, math }, undefined, 'Brand 1'))
+    expect(saltedResult.similarityHash).toBe(simHashComponents(saltedResult.components, { salt: 'Brand 1' }))
+  })
+
+  it('makes visitor identifiers with a custom hasher', async () => {
+    const agent = await loadAgent({
+      delayFallback: 0,
+      includeOnly: ['platform', 'timezone', 'math'],
+      hasher: hashers.sha256,
+    })
+    const result = await agent.get()
+    const { platform, math } = result.components
+    expect(result.visitorId).toBe(await hashComponents(result.components, hashers.sha256))
+    expect(result.visitorIds.core).toBe(await hashComponents({ platform, math }, hashers.sha256))
+    expect(result.visitorIds.full).toBe(result.visitorId)
+  })
+  it('applies the environment strategy', async () => {
+    const includeOnly = ['platform', 'math']
+    const result = await (await loadAgent({ delayFallback: 0, includeOnly })).get()
+    const telegramResult = await (await loadAgent({ delayFallback: 0, includeOnly, strategy: 'telegram' })).get()
+    // The tests don't run in Telegram, so the automatic strategy detects nothing
+    expect('strategy' in result).toBeFalse()
+    expect(telegramResult.strategy).toEqual({
+      name: 'telegram',
+      confidence: jasmine.objectContaining({ telegramAdjustment: false }),
+      visitorId: jasmine.stringMatching(/^[0-9a-f]+$/),
+    })
+    expect(telegramResult.visitorId).toBe(result.visitorId)
+    const sha256Agent = await loadAgent({ delayFallback: 0, includeOnly, strategy: 'telegram', hasher: hashers.sha256 })
+    expect((await sha256Agent.get()).strategy?.visitorId).toMatch(/^[0-9a-f]{64}$/)
+    await expectAsync(loadAgent({ strategy: 'foo' })).toBeRejectedWithError(TypeError, 'Unknown strategy: foo')
+  })
+
+  it('ignores the Telegram storage outside Telegram', async () => {
+    const includeOnly = ['platform', 'telegramWebApp']
+    const result = await (await loadAgent({ delayFallback: 0, includeOnly, telegramStorage: true })).get()
+    expect('telegramDevice' in result).toBeFalse()
+    expect(Object.keys(result.visitorIds)).toEqual(['core', 'full'])
+  })
+
+  it('adds the Telegram identifier before calling the result hook', async () => {
+    const items: Record<string, string> = {}
+    const secureStorage = {
+      getItem: (key: string, callback: (error: unknown, value?: string | null) => void) =>
+        setTimeout(() => callback(null, items[key] ?? null)),
+      setItem: (key: string, value: string, callback: (error: unknown, isStored?: boolean) => void) =>
+        setTimeout(() => {
+          items[key] = value
+          callback(null, true)
+        }),
+    }
+    const hookTelegramIds: Array<string | undefined> = []
+    const result = await withMockProperties(
+      window,
+      { Telegram: { value: { WebApp: { version: '9.0', platform: 'ios', SecureStorage: secureStorage } } } },
+      async () => {
+        const agent = await loadAgent({
+          delayFallback: 0,
+          includeOnly: ['platform', 'telegramWebApp'],
+          telegramStorage: true,
+          onResult: (event) => hookTelegramIds.push(event.result.visitorIds.telegram),
+        })
+        return agent.get()
+      },
+    )
+    expect(result.visitorIds.telegram).toMatch(/^[0-9a-f]+$/)
+    expect(hookTelegramIds).toEqual([result.visitorIds.telegram])
+  })
+
+  it('makes the same visitor identifier in the worker mode', async () => {
+    const includeOnly = ['platform', 'math', 'timezone', 'hardwareConcurrency', 'dateTimeLocale']
+    const result = await (await loadAgent({ delayFallback: 0, includeOnly })).get()
+    const workerResult = await (await loadAgent({ delayFallback: 0, includeOnly, worker: true })).get()
+    expect(Object.keys(workerResult.components)).toEqual(Object.keys(result.components))
+    expect(workerResult.visitorId).toBe(result.visitorId)
+  })
+
+  it('returns the stored result and refreshes it', async () => {
+    const key = '_fpjs_test_agent_cache'
+    let sourceValue = 'Foo'
+    const refreshEvents: RefreshEvent[] = []
+    const loadOptions = {
+      delayFallback: 0,
+      includeOnly: ['foo'],
+      customSources: { foo: () => sourceValue },
+      persistence: { key, onRefresh: (event: RefreshEvent) => refreshEvents.push(event) },
+    }
+
+    try {
+      const firstResult = await (await loadAgent(loadOptions)).get()
+      expect(refreshEvents.length).toBe(0)
+
+      sourceValue = 'Bar'
+      const agent = await loadAgent(loadOptions)
+      const cachedResult = await agent.get()
+      expect(cachedResult.visitorId).toBe(firstResult.visitorId)
+
+      await wait(50)
+      expect(refreshEvents.length).toBe(1)
+      expect(refreshEvents[0].cachedResult).toBe(cachedResult)
+      expect(refreshEvents[0].isVisitorIdChanged).toBeTrue()
+      expect(refreshEvents[0].result.components as UnknownComponents).toEqual({
+        foo: { value: 'Bar', duration: jasmine.any(Number) },
+      })
+
+      const refreshedResult = await agent.get()
+      expect(refreshedResult.visitorId).toBe(refreshEvents[0].result.visitorId)
+    } finally {
+      localStorage.removeItem(key)
+    }
+  })
+
+  it('rejects when the signal aborts', async () => {
+    const abortedController = new AbortController()
+    abortedController.abort()
+    await expectAsync(loadAgent({ delayFallback: 0, signal: abortedController.signal })).toBeRejectedWith(
+      jasmine.objectContaining({ name: 'AbortError' }),
+    )
+
+    const getController = new AbortController()
+    const agent = await loadAgent({ delayFallback: 0 })
+    const resultPromise = agent.get({ signal: getController.signal })
+    getController.abort()
+    await expectAsync(resultPromise).toBeRejectedWith(jasmine.objectContaining({ name: 'AbortError' }))
+    await agent.get() // The agent stays usable
+  })
+
+  it('releases the resources when the load signal aborts', async () => {
+    const loadController = new AbortController()
+    const agent = await loadAgent({ delayFallback: 0, signal: loadController.signal })
+    loadController.abort()
+    expect(document.querySelectorAll('iframe').length).withContext('Iframes are left in the DOM').toBe(0)
+    await expectAsync(agent.get()).toBeRejectedWith(jasmine.objectContaining({ name: 'AbortError' }))
+  })
+  it('streams components before the result', async () => {
+    const agent = await loadAgent({
+      delayFallback: 0,
+      includeOnly: ['platform', 'slow'],
+      customSources: {
+        slow: () => wait(50, 'Slow'),
+      },
+    })
+    const items: StreamItem[] = []
+    for await (const item of agent.stream()) {
+      items.push(item)
+    }
+
+    expect(items.length).toBe(3)
+    expect(items[0]).toEqual({ type: 'component', key: 'platform', component: jasmine.anything() })
+    expect(items[1]).toEqual({ type: 'component', key: 'slow', component: jasmine.anything() })
+    expect(items[2].type).toBe('result')
+    if (items[2].type === 'result') {
+      const { components } = items[2].result
+      expect(items[0]).toEqual(jasmine.objectContaining({ component: components.platform }))
+      expect(items[1]).toEqual(jasmine.objectContaining({ component: (components as UnknownComponents).slow }))
+    }
+  })
+  it('calls the lifecycle hooks', async () => {
+    const onSourceStart = jasmine.createSpy()
+    const onSourceComplete = jasmine.createSpy()
+    const onResult = jasmine.createSpy()
+    const agent = await loadAgent({
+      delayFallback: 0,
+      includeOnly: ['platform'],
+      onSourceStart,
+      onSourceComplete,
+      onResult,
+    })
+    const result = await agent.get()
+
+    expect(onSourceStart).toHaveBeenCalledOnceWith({ key: 'platform', stage: 'load' })
+    expect(onSourceComplete).toHaveBeenCalledOnceWith({ key: 'platform', stage: 'load', duration: jasmine.any(Number) })
+    expect(onResult).toHaveBeenCalledOnceWith({ result, duration: jasmine.any(Number) })
+  })
 })
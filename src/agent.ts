@@ -1,15 +1,28 @@
 import { version } from '../package.json'
-import { requestIdleCallbackIfAvailable } from './utils/async'
-import { UnknownComponents } from './utils/entropy_source'
-import { x64hash128 } from './utils/hashing'
+import { abortable, isAbortError, requestIdleCallbackIfAvailable } from './utils/async'
+import { callHook, Component, ComponentListener, SourceHooks, UnknownComponents } from './utils/entropy_source'
+import { hashComponents } from './components'
+import { simHashComponents } from './similarity'
 import { errorToObject } from './utils/misc'
-import loadBuiltinSources, { BuiltinComponents } from './sources'
+import loadBuiltinSources, {
+  BuiltinComponents,
+  BuiltinComponentsGetter,
+  SourceSelection,
+  VisitorIdTiers,
+  visitorIdTiers,
+} from './sources'
 import getConfidence, { Confidence } from './confidence'
+import { ComponentCache, makeComponentCache, PersistentStorageType } from './persistence'
+import { currentSchemaVersion } from './schema'
+import { Hasher } from './hashers'
+import { applyStrategy, checkStrategyName, generateStrategyFingerprint, StrategyResult } from './strategies'
+import { getTelegramDevice, TelegramDevice } from './telegram_storage'
+import { getTelegramWebAppContext, TelegramWebAppContext } from './sources/telegram_webapp'
 
 /**
  * Options for Fingerprint class loading
  */
-export interface LoadOptions {
+export interface LoadOptions extends SourceSelection, SourceHooks {
   /**
    * When browser doesn't support `requestIdleCallback` a `setTimeout` will be used. This number is only for Safari and
    * old Edge, because Chrome/Blink based browsers support `requestIdleCallback`. The value is in milliseconds.
@@ -21,6 +34,117 @@ export interface LoadOptions {
    * Required to ease investigations of problems.
    */
   debug?: boolean
+  /**
+   * The maximum time (milliseconds) of running each entropy source. The keys are the source names.
+   * A source that runs out of time gets a component with a `TimeoutError` error.
+   */
+  timeouts?: Readonly<Partial<Record<string, number>>>
+  /**
+   * The default value of the `budgetMs` option of `agent.get()`
+   */
+  budgetMs?: number
+  /**
+   * Cancels the loading and the agent. When it aborts, the entropy sources stop and release their resources,
+   * and `load()` and all `agent.get()` calls reject with an `AbortError`.
+   */
+  signal?: AbortSignal
+  /**
+   * Is called when an agent gets a visitor identifier
+   */
+  onResult?: (event: ResultEvent) => void
+  /**
+   * The visitor identifiers to make in `GetResult.visitorIds`.
+   * Replaces the built-in tiers (`core` and `full`).
+   */
+  tiers?: Readonly<VisitorIdTiers>
+  /**
+   * Stores the components between page loads to return the visitor identifier immediately.
+   * `true` means the default persistence options.
+   */
+  persistence?: boolean | Readonly<PersistenceOptions>
+  /**
+   * Runs the self-contained entropy sources (see `workerSources`) in an inline worker.
+   * The canvas, WebGL and languages sources always run in the main thread, so the option unblocks the main thread
+   * only a little. If the browser forbids inline workers (e.g. by CSP), the sources run in the main thread.
+   */
+  worker?: boolean
+  /**
+   * Makes the visitor identifiers (`visitorId` and `visitorIds`) from the components. See `hashers` for the built-in
+   * hashers. When the hasher is asynchronous, `agent.get()` waits for it. Doesn't affect `similarityHash`.
+   * @default hashers.murmur3
+   */
+  hasher?: Hasher
+  /**
+   * Makes the visitor identifiers (`visitorId`, `visitorIds` and `similarityHash`) keyed hashes of the components.
+   * Different salts give unlinkable identifiers to the same browser, the same salt gives the same identifiers.
+   * Use a salt per site or brand to prevent correlating the visitors between them.
+   */
+  salt?: string
+  /**
+   * Adjusts the result to the environment, see `GetResult.strategy`.
+   * `'auto'` detects the environment, `'default'` makes no adjustments, `'telegram'` treats the browser as a Telegram
+   * Mini App. Custom strategies added by `registerStrategy` can be chosen by their names.
+   * @default 'auto'
+   */
+  strategy?: string
+  /**
+   * Keeps a device token in the storages of the Telegram Mini App (`SecureStorage` or `DeviceStorage`, and
+   * `CloudStorage`) that survive the WebView storage wipes, and adds the `telegram` visitor identifier made from the
+   * token to `GetResult.visitorIds`. Has no effect outside Telegram Mini Apps.
+   * `true` means the default options.
+   */
+  telegramStorage?: boolean | Readonly<TelegramStorageOptions>
+}
+
+export interface TelegramStorageOptions {
+  /**
+   * The key of the items in the Telegram storages
+   * @default '_fpjs_device'
+   */
+  key?: string
+  /**
+   * How long (milliseconds) to wait for each Telegram storage call. Some Telegram clients never answer the calls they
+   * don't support.
+   * @default 1000
+   */
+  timeout?: number
+}
+
+export interface PersistenceOptions {
+  /**
+   * Where to store the components. When the storage is unavailable or blocked, the components aren't stored.
+   * @default 'localStorage'
+   */
+  storage?: PersistentStorageType
+  /**
+   * How long (milliseconds) the stored components are used
+   * @default 86400000 (1 day)
+   */
+  ttl?: number
+  /**
+   * The key of the storage item
+   * @default '_fpjs_cache'
+   */
+  key?: string
+  /**
+   * Is called when the agent has got a fresh result after returning a stored result
+   */
+  onRefresh?: (event: RefreshEvent) => void
+}
+
+export interface RefreshEvent {
+  /** The fresh result */
+  result: GetResult
+  /** The result that `agent.get()` has returned from the storage */
+  cachedResult: GetResult
+  /** Whether the fresh visitor identifier differs from the stored one */
+  isVisitorIdChanged: boolean
+}
+
+export interface ResultEvent {
+  result: GetResult
+  /** The duration of getting the result in milliseconds */
+  duration: number
 }
 
 /**
@@ -33,6 +157,18 @@ export interface GetOptions {
    * @deprecated Use the `debug` option of `load()` instead
    */
   debug?: boolean
+  /**
+   * The maximum time (milliseconds) of getting the visitor identifier.
+   * The entropy sources that don't complete in time get components with a `TimeoutError` error,
+   * the visitor identifier is made from the components anyway.
+   * @default Infinity
+   */
+  budgetMs?: number
+  /**
+   * Cancels getting the visitor identifier. When it aborts, the call rejects with an `AbortError`.
+   * The agent stays usable.
+   */
+  signal?: AbortSignal
 }
 
 /**
@@ -43,6 +179,17 @@ export interface GetResult {
    * The visitor identifier
    */
   visitorId: string
+  /**
+   * A locality-sensitive hash (64 bit SimHash) of the components.
+   * Unlike `visitorId`, it changes only slightly when a few components change.
+   * Compare the hashes using `hammingDistance`.
+   */
+  similarityHash: string
+  /**
+   * The visitor identifiers made from different sets of components. The keys are the tier names.
+   * By default, `core` is made from long-lived hardware components and `full` is equal to `visitorId`.
+   */
+  visitorIds: Record<string, string>
   /**
    * A confidence score that tells how much the agent is sure about the visitor identifier
    */
@@ -61,8 +208,43 @@ export interface GetResult {
    * @see https://github.com/fingerprintjs/fingerprintjs#version-policy For more details
    */
   version: string
+  /**
+   * The version of the components shape. Store it with the components to convert them to the shape of a newer
+   * library version later using `migrateComponents`.
+   */
+  schemaVersion: number
+  /**
+   * The result of the environment strategy (see the `strategy` option of `load()`), e.g. the confidence and the visitor
+   * identifier optimized for Telegram Mini Apps. Absent when no strategy applies.
+   */
+  strategy?: StrategyResult
+  /**
+   * How the `telegram` visitor identifier has been made, see the `telegramStorage` option of `load()`.
+   * Absent when the option is off or the Telegram storages are unavailable.
+   */
+  telegramDevice?: TelegramDevice
+  /**
+   * The data of the current Telegram Mini App launch (the launch data, the theme and the viewport).
+   * It changes between the launches, so it doesn't form the visitor identifiers. Absent outside Telegram Mini Apps.
+   */
+  telegramContext?: TelegramWebAppContext
 }
 
+/**
+ * An item of the `agent.stream()` output.
+ * The components come in the order of their completion, the result comes last.
+ */
+export type StreamItem =
+  | {
+      type: 'component'
+      key: string
+      component: Component<unknown>
+    }
+  | {
+      type: 'result'
+      result: GetResult
+    }
+
 /**
  * Agent object that can get visitor identifier
  */
@@ -71,16 +253,11 @@ export interface Agent {
    * Gets the visitor identifier
    */
   get(options?: Readonly<GetOptions>): Promise<GetResult>
-}
-
-function componentsToCanonicalString(components: UnknownComponents) {
-  let result = ''
-  for (const componentKey of Object.keys(components).sort()) {
-    const component = components[componentKey]
-    const value = 'error' in component ? 'error' : JSON.stringify(component.value)
-    result += `${result ? '|' : ''}${componentKey.replace(/([:|\\])/g, '\\$1')}:${value}`
-  }
-  return result
+  /**
+   * Gets the visitor identifier and provides each component as soon as it's got,
+   * without waiting for the slower entropy sources. The last item is the same result as `get()` returns.
+   */
+  stream(options?: Readonly<GetOptions>): AsyncIterable<StreamItem>
 }
 
 export function componentsToDebugString(components: UnknownComponents): string {
@@ -96,35 +273,146 @@ export function componentsToDebugString(components: UnknownComponents): string {
   )
 }
 
-export function hashComponents(components: UnknownComponents): string {
-  return x64hash128(componentsToCanonicalString(components))
+/**
+ * The options of `load()` that define how a result is made from the components
+ */
+interface ResultOptions extends Pick<LoadOptions, 'tiers' | 'hasher' | 'salt' | 'strategy'> {
+  /** The `telegramStorage` option of `load()` with the defaults applied, absent when the option is off */
+  telegramStorage?: Readonly<Required<TelegramStorageOptions>>
 }
 
 /**
  * Makes a GetResult implementation that calculates the visitor id hash on demand.
  * Designed for optimisation.
  */
-function makeLazyGetResult(components: BuiltinComponents): GetResult {
+function makeLazyGetResult(
+  components: BuiltinComponents,
+  { tiers = visitorIdTiers, salt, strategy = 'auto' }: Readonly<ResultOptions>,
+): GetResult {
   let visitorIdCache: string | undefined
+  let similarityHashCache: string | undefined
+  let visitorIdsCache: Record<string, string> | undefined
 
   // This function runs very fast, so there is no need to make it lazy
   const confidence = getConfidence(components)
+  const strategyResult = applyStrategy(components, strategy, salt)
 
   // A plain class isn't used because its getters and setters aren't enumerable.
-  return {
+  const result: GetResult = {
     get visitorId(): string {
       if (visitorIdCache === undefined) {
-        visitorIdCache = hashComponents(this.components)
+        visitorIdCache = hashComponents(this.components, undefined, salt)
       }
       return visitorIdCache
     },
     set visitorId(visitorId: string) {
       visitorIdCache = visitorId
     },
+    get similarityHash(): string {
+      if (similarityHashCache === undefined) {
+        similarityHashCache = simHashComponents(this.components, { salt })
+      }
+      return similarityHashCache
+    },
+    set similarityHash(similarityHash: string) {
+      similarityHashCache = similarityHash
+    },
+    get visitorIds(): Record<string, string> {
+      if (visitorIdsCache === undefined) {
+        visitorIdsCache = makeLazyVisitorIds(this.components, tiers, salt)
+      }
+      return visitorIdsCache
+    },
+    set visitorIds(visitorIds: Record<string, string>) {
+      visitorIdsCache = visitorIds
+    },
     confidence,
     components,
     version,
+    schemaVersion: currentSchemaVersion,
+  }
+  // The property is set only when there is a result to not add an `undefined` property to the JSON of regular results
+  if (strategyResult) {
+    result.strategy = strategyResult
+  }
+  return result
+}
+
+/**
+ * Makes an object with the tier visitor identifiers that are calculated on demand
+ */
+function makeLazyVisitorIds(
+  components: UnknownComponents,
+  tiers: Readonly<VisitorIdTiers>,
+  salt?: string,
+): Record<string, string> {
+  const visitorIds: Record<string, string> = {}
+
+  for (const tier of Object.keys(tiers)) {
+    let visitorIdCache: string | undefined
+    Object.defineProperty(visitorIds, tier, {
+      get() {
+        if (visitorIdCache === undefined) {
+          visitorIdCache = hashComponents(pickComponents(components, tiers[tier]), undefined, salt)
+        }
+        return visitorIdCache
+      },
+      set(visitorId: string) {
+        visitorIdCache = visitorId
+      },
+      enumerable: true,
+      configurable: true,
+    })
+  }
+
+  return visitorIds
+}
+
+/**
+ * Makes a GetResult with the visitor identifiers made by the custom hasher, if there is one.
+ * The identifiers are calculated in advance instead of on demand because the hasher may be asynchronous.
+ */
+async function makeGetResult(components: BuiltinComponents, options: Readonly<ResultOptions>): Promise<GetResult> {
+  const { tiers = visitorIdTiers, hasher, salt } = options
+  const result = makeLazyGetResult(components, options)
+  // Read at the moment because the context isn't a component. A stored result gets the context of the current launch.
+  const telegramContext = getTelegramWebAppContext()
+  if (telegramContext) {
+    result.telegramContext = telegramContext
+  }
+  if (!hasher) {
+    return result
+  }
+
+  const tierNames = Object.keys(tiers)
+  const [visitorId, strategyVisitorId, ...tierVisitorIds] = await Promise.all([
+    hashComponents(components, hasher, salt),
+    result.strategy && generateStrategyFingerprint(components, result.strategy.name, hasher, salt),
+    ...tierNames.map((tier) => hashComponents(pickComponents(components, tiers[tier]), hasher, salt)),
+  ])
+  const visitorIds: Record<string, string> = {}
+  for (let i = 0; i < tierNames.length; ++i) {
+    visitorIds[tierNames[i]] = tierVisitorIds[i]
+  }
+  result.visitorId = visitorId
+  result.visitorIds = visitorIds
+  if (result.strategy && strategyVisitorId !== undefined) {
+    result.strategy.visitorId = strategyVisitorId
+  }
+  return result
+}
+
+function pickComponents(components: UnknownComponents, keys: readonly string[] | 'all'): UnknownComponents {
+  if (keys === 'all') {
+    return components
+  }
+  const pickedComponents: UnknownComponents = {}
+  for (const key of keys) {
+    if (key in components) {
+      pickedComponents[key] = components[key]
+    }
   }
+  return pickedComponents
 }
 
 /**
@@ -145,19 +433,23 @@ export function prepareForSources(delayFallback = 50): Promise<void> {
  * A factory function is used instead of a class to shorten the attribute names in the minified code.
  * Native private class fields could've been used, but TypeScript doesn't allow them with `"target": "es5"`.
  */
-function makeAgent(getComponents: () => Promise<BuiltinComponents>, debug?: boolean): Agent {
+function makeAgent(
+  getComponents: BuiltinComponentsGetter,
+  resultOptions: Readonly<ResultOptions>,
+  { debug, budgetMs: defaultBudget, onResult }: Readonly<Pick<LoadOptions, 'debug' | 'budgetMs' | 'onResult'>>,
+): Agent {
   const creationTime = Date.now()
 
-  return {
-    async get(options) {
-      const startTime = Date.now()
-      const components = await getComponents()
-      const result = makeLazyGetResult(components)
+  const getResult = async (options: Readonly<GetOptions> | undefined, onComponent?: ComponentListener) => {
+    const startTime = Date.now()
+    const components = await getComponents(options?.budgetMs ?? defaultBudget, options?.signal, onComponent)
+    const result = await makeGetResult(components, resultOptions)
+    await addTelegramDevice(result, resultOptions, options?.signal)
 
-      if (debug || options?.debug) {
-        // console.log is ok here because it's under a debug clause
-        // eslint-disable-next-line no-console
-        console.log(`Copy the text below to get the debug data:
+    if (debug || options?.debug) {
+      // console.log is ok here because it's under a debug clause
+      // eslint-disable-next-line no-console
+      console.log(`Copy the text below to get the debug data:
 
 \`\`\`
 version: ${result.version}
@@ -166,13 +458,116 @@ timeBetweenLoadAndGet: ${startTime - creationTime}
 visitorId: ${result.visitorId}
 components: ${componentsToDebugString(components)}
 \`\`\``)
+    }
+
+    callHook(onResult, { result, duration: Date.now() - startTime })
+    return result
+  }
+
+  return {
+    get: getResult,
+    async *stream(options) {
+      const queue: StreamItem[] = []
+      let failure: { error: unknown } | undefined
+      let wakeUp = () => undefined as void
+
+      const push = (item: StreamItem) => {
+        queue.push(item)
+        wakeUp()
+      }
+
+      getResult(options, (key, component) => push({ type: 'component', key, component })).then(
+        (result) => push({ type: 'result', result }),
+        (error) => {
+          failure = { error }
+          wakeUp()
+        },
+      )
+
+      for (;;) {
+        const item = queue.shift()
+        if (item) {
+          yield item
+          if (item.type === 'result') {
+            return
+          }
+        } else if (failure) {
+          throw failure.error
+        } else {
+          await new Promise<void>((resolve) => (wakeUp = resolve))
+        }
+      }
+    },
+  }
+}
+
+/**
+ * Makes an agent that returns the stored result immediately and refreshes the stored result in background.
+ * The agent streams without using the storage.
+ */
+function withPersistence(
+  agent: Agent,
+  cache: ComponentCache,
+  resultOptions: Readonly<ResultOptions>,
+  onRefresh?: PersistenceOptions['onRefresh'],
+): Agent {
+  const getAndStore = async (options: Readonly<GetOptions> | undefined) => {
+    const result = await agent.get(options)
+    await cache.write(result.components)
+    return result
+  }
+
+  return {
+    ...agent,
+    async get(options) {
+      const cachedComponents = await abortable(cache.read(), options?.signal)
+      if (!cachedComponents) {
+        return getAndStore(options)
       }
 
-      return result
+      // The stored components have been made by the same version of the library
+      const cachedResult = await makeGetResult(cachedComponents as BuiltinComponents, resultOptions)
+      await addTelegramDevice(cachedResult, resultOptions, options?.signal)
+      getAndStore(options).then(
+        (result) =>
+          callHook(onRefresh, {
+            result,
+            cachedResult,
+            isVisitorIdChanged: result.visitorId !== cachedResult.visitorId,
+          }),
+        (error) => {
+          if (!isAbortError(error)) {
+            // console.error is ok here because it's an unexpected error handler
+            // eslint-disable-next-line no-console
+            console.error(error)
+          }
+        },
+      )
+      return cachedResult
     },
   }
 }
 
+/**
+ * Adds the visitor identifier made from the tokens kept in the Telegram storages to the result.
+ * Does nothing when the `telegramStorage` option is off.
+ */
+async function addTelegramDevice(
+  result: GetResult,
+  { telegramStorage, hasher, salt }: Readonly<ResultOptions>,
+  signal?: AbortSignal,
+): Promise<void> {
+  if (!telegramStorage) {
+    return
+  }
+  const { key, timeout } = telegramStorage
+  const telegram = await abortable(getTelegramDevice(result.components, key, timeout, hasher, salt), signal)
+  if (telegram) {
+    result.visitorIds.telegram = telegram.visitorId
+    result.telegramDevice = telegram.device
+  }
+}
+
 /**
  * Sends an unpersonalized AJAX request to collect installation statistics
  */
@@ -199,8 +594,20 @@ export async function load(options: Readonly<LoadOptions> = {}): Promise<Agent>
   if ((options as { monitoring?: boolean }).monitoring ?? true) {
     monitor()
   }
-  const { delayFallback, debug } = options
-  await prepareForSources(delayFallback)
-  const getComponents = loadBuiltinSources({ cache: {}, debug })
-  return makeAgent(getComponents, debug)
+  const { delayFallback, debug, signal, persistence, strategy = 'auto', telegramStorage } = options
+  checkStrategyName(strategy)
+  await abortable(prepareForSources(delayFallback), signal)
+  const getComponents = loadBuiltinSources({ cache: {}, debug, signal }, options)
+  const resultOptions: ResultOptions = { tiers: options.tiers, hasher: options.hasher, salt: options.salt, strategy }
+  if (telegramStorage) {
+    const { key = '_fpjs_device', timeout = 1000 } = telegramStorage === true ? {} : telegramStorage
+    resultOptions.telegramStorage = { key, timeout }
+  }
+  let agent = makeAgent(getComponents, resultOptions, options)
+  if (persistence) {
+    const persistenceOptions: Readonly<PersistenceOptions> = persistence === true ? {} : persistence
+    const { storage = 'localStorage', ttl = 86400000, key = '_fpjs_cache', onRefresh } = persistenceOptions
+    agent = withPersistence(agent, makeComponentCache(storage, key, ttl), resultOptions, onRefresh)
+  }
+  return agent
 }
@@ -0,0 +1,40 @@
+import { UnknownComponents } from './utils/entropy_source'
+import { Hasher, hashers } from './hashers'
+
+/*
+ * Operations on components that don't depend on the browser, so they can also run on a server
+ */
+
+export function componentsToCanonicalString(components: UnknownComponents): string {
+  let result = ''
+  for (const componentKey of Object.keys(components).sort()) {
+    const component = components[componentKey]
+    const value = 'error' in component ? 'error' : JSON.stringify(component.value)
+    result += `${result ? '|' : ''}${componentKey.replace(/([:|\\])/g, '\\$1')}:${value}`
+  }
+  return result
+}
+
+/**
+ * Makes the visitor identifier from the components. The default hasher is `hashers.murmur3`.
+ * Returns a promise when the hasher is asynchronous (e.g. `hashers.sha256`).
+ * The salt gives different unlinkable identifiers to the same components, see the `salt` option of `load()`.
+ */
+export function hashComponents(
+  components: UnknownComponents,
+  hasher?: (input: string, salt?: string) => string,
+  salt?: string,
+): string
+export function hashComponents(
+  components: UnknownComponents,
+  hasher: (input: string, salt?: string) => Promise<string>,
+  salt?: string,
+): Promise<string>
+export function hashComponents(components: UnknownComponents, hasher: Hasher, salt?: string): string | Promise<string>
+export function hashComponents(
+  components: UnknownComponents,
+  hasher: Hasher = hashers.murmur3,
+  salt?: string,
+): string | Promise<string> {
+  return hasher(componentsToCanonicalString(components), salt)
+}
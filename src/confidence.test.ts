@@ -1,28 +1,116 @@
-import { getBrowserMajorVersion, isAndroid, isMacOS, isMobile, isSafari, isTablet, isWindows } from '../tests/utils'
-import { loadSources } from './utils/entropy_source'
+import { loadSources, UnknownComponents } from './utils/entropy_source'
 import getPlatform from './sources/platform'
-import getConfidence, { commentTemplate } from './confidence'
+import getCanvasFingerprint from './sources/canvas'
+import { sourceEntropy } from './sources/entropy'
+import getConfidence, { commentTemplate, recalculateConfidence } from './confidence'
 
 describe('Confidence', () => {
-  it('matches the current platform', async () => {
-    const getComponents = loadSources({ platform: getPlatform }, undefined, [])
+  const makeRichComponents = (): UnknownComponents => {
+    const components: UnknownComponents = {}
+    for (const key of Object.keys(sourceEntropy)) {
+      components[key] = { value: `${key} value`, duration: 0 }
+    }
+    components.canvas = {
+      value: { winding: true, geometry: 'data:image/png;1', text: 'data:image/png;2' },
+      duration: 0,
+    }
+    components.audio = { value: 124.04347527516074, duration: 0 }
+    components.audioBaseLatency = { value: 0.01, duration: 0 }
+    return components
+  }
+
+  it('estimates the current browser', async () => {
+    const getComponents = loadSources({ platform: getPlatform, canvas: getCanvasFingerprint }, undefined, [])
     const components = await getComponents()
     const confidence = getConfidence(components)
 
-    if (isAndroid()) {
-      expect(confidence).toEqual({ score: 0.4, comment: commentTemplate.replace(/\$/g, '0.994') })
-    } else if (isSafari()) {
-      if (isMobile() || isTablet() || (getBrowserMajorVersion() ?? 0) >= 17) {
-        expect(confidence).toEqual({ score: 0.3, comment: commentTemplate.replace(/\$/g, '0.993') })
-      } else {
-        expect(confidence).toEqual({ score: 0.5, comment: commentTemplate.replace(/\$/g, '0.995') })
-      }
-    } else if (isWindows()) {
-      expect(confidence).toEqual({ score: 0.6, comment: commentTemplate.replace(/\$/g, '0.996') })
-    } else if (isMacOS()) {
-      expect(confidence).toEqual({ score: 0.5, comment: commentTemplate.replace(/\$/g, '0.995') })
+    expect(confidence.score).toBeGreaterThan(0)
+    expect(confidence.score).toBeLessThan(1)
+    expect(confidence.breakdown?.entropy).toBeLessThanOrEqual(confidence.breakdown?.maxEntropy ?? 0)
+    if ('value' in components.canvas && /^data:/.test(components.canvas.value.geometry)) {
+      expect(confidence.breakdown?.penalties.canvas).toBeUndefined()
     } else {
-      expect(confidence).toEqual({ score: 0.7, comment: commentTemplate.replace(/\$/g, '0.997') })
+      expect(confidence.breakdown?.penalties.canvas).toBeDefined()
+    }
+  })
+
+  it('gives a high score when all the sources succeed', () => {
+    const confidence = getConfidence(makeRichComponents())
+    expect(confidence.score).toBe(0.74)
+    expect(confidence.comment).toBe(commentTemplate.replace(/\$/g, '0.9974'))
+    expect(confidence.breakdown).toEqual({ entropy: 26.05, maxEntropy: 26.05, penalties: {} })
+  })
+
+  it('names the components that drag the score down', () => {
+    const components = makeRichComponents()
+    components.canvas = { value: { winding: true, geometry: 'skipped', text: 'skipped' }, duration: 0 }
+    components.fonts = { error: new Error('Test'), duration: 0 }
+    components.audio = { value: -4, duration: 0 }
+    components.plugins = { value: [], duration: 0 }
+    components.timezone = { value: undefined, duration: 0 }
+    const confidence = getConfidence(components)
+
+    expect(confidence.score).toBeLessThan(getConfidence(makeRichComponents()).score)
+    expect(confidence.breakdown?.penalties).toEqual({
+      canvas: { reason: 'skipped', lostEntropy: 3.6 },
+      fonts: { reason: 'error', lostEntropy: 3.5 },
+      audio: { reason: 'special', lostEntropy: 1.35 },
+      timezone: { reason: 'empty', lostEntropy: 1.13 },
+      plugins: { reason: 'empty', lostEntropy: 0.6 },
+    })
+    // The order is from the largest loss to the smallest
+    expect(Object.keys(confidence.breakdown?.penalties ?? {})).toEqual([
+      'canvas',
+      'fonts',
+      'audio',
+      'timezone',
+      'plugins',
+    ])
+    expect(confidence.breakdown?.maxEntropy).toBe(26.05)
+    expect(confidence.breakdown?.entropy).toBe(15.87)
+  })
+
+  it('penalizes the special canvas and audio values', () => {
+    const getPenalties = (key: string, value: unknown) =>
+      getConfidence({ ...makeRichComponents(), [key]: { value, duration: 0 } }).breakdown?.penalties
+    expect(getPenalties('canvas', { winding: false, geometry: 'unstable', text: 'unstable' })).toEqual({
+      canvas: { reason: 'unstable', lostEntropy: 3.6 },
+    })
+    expect(getPenalties('canvas', { winding: false, geometry: 'unsupported', text: 'unsupported' })).toEqual({
+      canvas: { reason: 'unsupported', lostEntropy: 3.6 },
+    })
+    expect(getPenalties('audioBaseLatency', -2)).toEqual({ audioBaseLatency: { reason: 'special', lostEntropy: 0.45 } })
+    expect(getPenalties('audio', 0)).toEqual({})
+    expect(getPenalties('hdr', false)).toEqual({})
+  })
+
+  it('handles custom and missing components', () => {
+    expect(getConfidence({})).toEqual({
+      score: 0.03,
+      comment: commentTemplate.replace(/\$/g, '0.9903'),
+      breakdown: { entropy: 0, maxEntropy: 0, penalties: {} },
+    })
+    expect(getConfidence({ foo: { value: 'Foo', duration: 0 } }).breakdown).toEqual({
+      entropy: 0.5,
+      maxEntropy: 0.5,
+      penalties: {},
+    })
+    // Sources without entropy aren't penalized
+    expect(getConfidence({ cookiesEnabled: { error: new Error('Test'), duration: 0 } }).breakdown?.penalties).toEqual(
+      {},
+    )
+  })
+})
+
+describe('recalculateConfidence', () => {
+  it('gives the same confidence as the browser', () => {
+    const components: UnknownComponents = {
+      platform: { value: 'Win32', duration: 0 },
+      vendor: { error: new Error('Test'), duration: 0 },
+      canvas: { value: { winding: true, geometry: 'skipped', text: 'skipped' }, duration: 0 },
     }
+    expect(recalculateConfidence(components)).toEqual(getConfidence(components))
+    // After transferring as JSON
+    expect(recalculateConfidence(JSON.parse(JSON.stringify(components)))).toEqual(getConfidence(components))
   })
 })
@@ -1,6 +1,7 @@
-import { BuiltinComponents } from './sources'
+import { UnknownComponents } from './utils/entropy_source'
 import { round } from './utils/data'
-import { isAndroid, isWebKit, isDesktopWebKit, isWebKit616OrNewer, isSafariWebKit } from './utils/browser'
+import { ImageStatus } from './sources/canvas'
+import { defaultSourceEntropy, sourceEntropy } from './sources/entropy'
 
 export interface Confidence {
   /**
@@ -12,51 +13,135 @@ export interface Confidence {
    * Additional details about the score as a human-readable text
    */
   comment?: string
+  /**
+   * What the score is made of
+   */
+  breakdown?: ConfidenceBreakdown
+}
+
+export interface ConfidenceBreakdown {
+  /** The estimated effective entropy of the components in bits */
+  entropy: number
+  /** The entropy that the components would have if they all had regular values */
+  maxEntropy: number
+  /**
+   * The components that have less entropy than they could, from the largest loss to the smallest.
+   * The keys are the component names.
+   */
+  penalties: Record<string, ConfidencePenalty>
+}
+
+/**
+ * - `error` The entropy source has thrown an error
+ * - `empty` The value is empty, e.g. the browser doesn't support the feature
+ * - `skipped` The canvas images haven't been rendered because the browser is known for adding noise to them
+ * - `unstable` The canvas images change between renderings, e.g. because of anti-fingerprinting
+ * - `unsupported` The browser doesn't support the canvas images
+ * - `special` The audio source has returned a special code instead of a fingerprint
+ */
+export type ConfidencePenaltyReason = 'error' | 'empty' | 'skipped' | 'unstable' | 'unsupported' | 'special'
+
+export interface ConfidencePenalty {
+  reason: ConfidencePenaltyReason
+  /** The entropy (bits) that the component has lost */
+  lostEntropy: number
 }
 
 export const commentTemplate = '$ if upgrade to Pro: https://fpjs.dev/pro'
 
-export default function getConfidence(components: Pick<BuiltinComponents, 'platform'>): Confidence {
-  const openConfidenceScore = getOpenConfidenceScore(components)
-  const proConfidenceScore = deriveProConfidenceScore(openConfidenceScore)
-  return { score: openConfidenceScore, comment: commentTemplate.replace(/\$/g, `${proConfidenceScore}`) }
+/**
+ * The share of the entropy that a component keeps with a penalty. An empty or special value still tells something
+ * about the browser, e.g. that it doesn't support a feature.
+ */
+const penaltyEntropyShares: Readonly<Record<ConfidencePenaltyReason, number>> = {
+  error: 0,
+  empty: 0.25,
+  // The canvas winding is still available
+  skipped: 0.1,
+  unstable: 0.1,
+  unsupported: 0.1,
+  special: 0.1,
 }
 
-function getOpenConfidenceScore(components: Pick<BuiltinComponents, 'platform'>): number {
-  // In order to calculate the true probability of the visitor identifier being correct, we need to know the number of
-  // website visitors (the higher the number, the less the probability because the fingerprint entropy is limited).
-  // JS agent doesn't know the number of visitors, so we can only do an approximate assessment.
-  if (isAndroid()) {
-    return 0.4
-  }
+// The entropy is turned into the score by a logistic function. The real number of the website visitors is unknown,
+// so the function is tuned to give about 0.7 to a desktop browser where all the entropy sources succeed.
+/** The entropy (bits) that gives the score of 0.5 */
+const middleEntropy = 20
+/** How many bits of entropy halve the odds of the visitor identifier being wrong */
+const entropyPerOddsHalving = 4
+
+/**
+ * Estimates how likely the visitor identifier is true from the entropy of the components. The components that have
+ * failed or have special values (e.g. skipped canvas images) give less entropy.
+ */
+export default function getConfidence(components: UnknownComponents): Confidence {
+  let entropy = 0
+  let maxEntropy = 0
+  const penalties: Array<[string, ConfidencePenalty]> = []
 
-  // Safari (mobile and desktop)
-  if (isWebKit()) {
-    return isDesktopWebKit() && !(isWebKit616OrNewer() && isSafariWebKit()) ? 0.5 : 0.3
+  for (const key of Object.keys(components)) {
+    const componentEntropy = sourceEntropy[key as keyof typeof sourceEntropy] ?? defaultSourceEntropy
+    const reason = getPenaltyReason(key, components[key])
+    const keptEntropy = reason ? componentEntropy * penaltyEntropyShares[reason] : componentEntropy
+    entropy += keptEntropy
+    maxEntropy += componentEntropy
+    if (reason && keptEntropy < componentEntropy) {
+      penalties.push([key, { reason, lostEntropy: round(componentEntropy - keptEntropy, 0.01) }])
+    }
   }
 
-  const platform = 'value' in components.platform ? components.platform.value : ''
+  penalties.sort(([, penalty1], [, penalty2]) => penalty2.lostEntropy - penalty1.lostEntropy)
+  const penaltyRecord: Record<string, ConfidencePenalty> = {}
+  for (const [key, penalty] of penalties) {
+    penaltyRecord[key] = penalty
+  }
 
-  // Windows
-  if (/^Win/.test(platform)) {
-    // The score is greater than on macOS because of the higher variety of devices running Windows.
-    // Chrome provides more entropy than Firefox according too
-    // https://netmarketshare.com/browser-market-share.aspx?options=%7B%22filter%22%3A%7B%22%24and%22%3A%5B%7B%22platform%22%3A%7B%22%24in%22%3A%5B%22Windows%22%5D%7D%7D%5D%7D%2C%22dateLabel%22%3A%22Trend%22%2C%22attributes%22%3A%22share%22%2C%22group%22%3A%22browser%22%2C%22sort%22%3A%7B%22share%22%3A-1%7D%2C%22id%22%3A%22browsersDesktop%22%2C%22dateInterval%22%3A%22Monthly%22%2C%22dateStart%22%3A%222019-11%22%2C%22dateEnd%22%3A%222020-10%22%2C%22segments%22%3A%22-1000%22%7D
-    // So we assign the same score to them.
-    return 0.6
+  const score = round(1 / (1 + Math.pow(2, (middleEntropy - entropy) / entropyPerOddsHalving)), 0.001)
+  const proConfidenceScore = deriveProConfidenceScore(score)
+  return {
+    score,
+    comment: commentTemplate.replace(/\$/g, `${proConfidenceScore}`),
+    breakdown: { entropy: round(entropy, 0.01), maxEntropy: round(maxEntropy, 0.01), penalties: penaltyRecord },
   }
+}
 
-  // macOS
-  if (/^Mac/.test(platform)) {
-    // Chrome provides more entropy than Safari and Safari provides more entropy than Firefox.
-    // Chrome is more popular than Safari and Safari is more popular than Firefox according to
-    // https://netmarketshare.com/browser-market-share.aspx?options=%7B%22filter%22%3A%7B%22%24and%22%3A%5B%7B%22platform%22%3A%7B%22%24in%22%3A%5B%22Mac%20OS%22%5D%7D%7D%5D%7D%2C%22dateLabel%22%3A%22Trend%22%2C%22attributes%22%3A%22share%22%2C%22group%22%3A%22browser%22%2C%22sort%22%3A%7B%22share%22%3A-1%7D%2C%22id%22%3A%22browsersDesktop%22%2C%22dateInterval%22%3A%22Monthly%22%2C%22dateStart%22%3A%222019-11%22%2C%22dateEnd%22%3A%222020-10%22%2C%22segments%22%3A%22-1000%22%7D
-    // So we assign the same score to them.
-    return 0.5
+/**
+ * Calculates the confidence from the components only, without looking at the current browser.
+ * Designed for servers that receive the components from browsers.
+ * The result is the same as `GetResult.confidence` in the browser that has made the components.
+ */
+export function recalculateConfidence(components: UnknownComponents): Confidence {
+  return getConfidence(components)
+}
+
+function getPenaltyReason(key: string, component: UnknownComponents[string]): ConfidencePenaltyReason | undefined {
+  if ('error' in component) {
+    return 'error'
+  }
+  const { value } = component as { value: unknown }
+  if (value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0)) {
+    return 'empty'
   }
 
-  // Another platform, e.g. a desktop Linux. It's rare, so it should be pretty unique.
-  return 0.7
+  switch (key) {
+    case 'canvas': {
+      const { geometry } = value as { geometry?: unknown }
+      switch (geometry) {
+        case ImageStatus.Skipped:
+          return 'skipped'
+        case ImageStatus.Unstable:
+          return 'unstable'
+        case ImageStatus.Unsupported:
+          return 'unsupported'
+      }
+      return undefined
+    }
+    case 'audio':
+    case 'audioBaseLatency':
+      // The special codes are negative, unlike the real values
+      return typeof value === 'number' && value < 0 ? 'special' : undefined
+  }
+  return undefined
 }
 
 function deriveProConfidenceScore(openConfidenceScore: number): number {
@@ -0,0 +1,79 @@
+import { UnknownComponents } from './utils/entropy_source'
+import { diffComponents } from './diff'
+
+describe('diffComponents', () => {
+  const components: UnknownComponents = {
+    platform: { value: 'MacIntel', duration: 1 },
+    fonts: { value: ['Arial', 'Menlo'], duration: 30 },
+    fontPreferences: { value: { apple: 147.5, serif: 147.5 }, duration: 40 },
+    webGlExtensions: { value: { extensions: ['A', 'B'], parameters: [1, 2] }, duration: 10 },
+    audio: { error: new Error('Fail'), duration: 3 },
+  }
+
+  it('finds no changes in equal components', () => {
+    const diff = diffComponents(components, {
+      ...components,
+      platform: { value: 'MacIntel', duration: 5 },
+      audio: { error: new Error('Another fail'), duration: 3 },
+    })
+    expect(diff).toEqual({ changes: [], summary: 'No changes' })
+  })
+
+  it('finds deep changes', () => {
+    const diff = diffComponents(components, {
+      ...components,
+      fontPreferences: { value: { apple: 150, serif: 147.5 }, duration: 40 },
+      webGlExtensions: { value: { extensions: ['A'], parameters: [1, 3, 4], 'foo-bar': true }, duration: 10 },
+    })
+    expect(diff.changes).toEqual([
+      { kind: 'changed', component: 'fontPreferences', path: 'fontPreferences.value.apple', before: 147.5, after: 150 },
+      { kind: 'removed', component: 'webGlExtensions', path: 'webGlExtensions.value.extensions[1]', before: 'B' },
+      {
+        kind: 'changed',
+        component: 'webGlExtensions',
+        path: 'webGlExtensions.value.parameters[1]',
+        before: 2,
+        after: 3,
+      },
+      { kind: 'added', component: 'webGlExtensions', path: 'webGlExtensions.value.parameters[2]', after: 4 },
+      { kind: 'added', component: 'webGlExtensions', path: 'webGlExtensions.value["foo-bar"]', after: true },
+    ])
+    expect(diff.summary).toBe(
+      '2 components differ: fontPreferences.value.apple changed, webGlExtensions changed (4 differences)',
+    )
+  })
+
+  it('finds added and removed components', () => {
+    const { fonts, ...otherComponents } = components
+    const diff = diffComponents(components, { ...otherComponents, foo: { value: 'bar', duration: 0 } })
+    expect(diff.changes).toEqual([
+      { kind: 'removed', component: 'fonts', path: 'fonts', before: { value: ['Arial', 'Menlo'] } },
+      { kind: 'added', component: 'foo', path: 'foo', after: { value: 'bar' } },
+    ])
+    expect(diff.summary).toBe('2 components differ: fonts removed, foo added')
+  })
+
+  it('finds errors', () => {
+    const error = new Error('Fail')
+    const diff = diffComponents(components, {
+      ...components,
+      platform: { error, duration: 1 },
+      audio: { value: 124.04, duration: 3 },
+    })
+    expect(diff.changes).toEqual([
+      { kind: 'removed', component: 'platform', path: 'platform.value', before: 'MacIntel' },
+      { kind: 'added', component: 'platform', path: 'platform.error', after: error },
+      { kind: 'removed', component: 'audio', path: 'audio.error', before: jasmine.any(Error) },
+      { kind: 'added', component: 'audio', path: 'audio.value', after: 124.04 },
+    ])
+    expect(diff.summary).toBe('2 components differ: platform failed, audio recovered from error')
+  })
+
+  it('treats values the same way as the visitor identifier', () => {
+    const diff = diffComponents(
+      { foo: { value: { a: undefined, b: NaN }, duration: 0 } },
+      { foo: { value: { b: null }, duration: 0 } },
+    )
+    expect(diff.changes).toEqual([])
+  })
+})
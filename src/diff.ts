@@ -0,0 +1,180 @@
+import { Component, UnknownComponents } from './utils/entropy_source'
+import { getAllKeys } from './utils/data'
+
+/**
+ * - `added` Only the second component list has the item
+ * - `removed` Only the first component list has the item
+ * - `changed` The item is different in the component lists
+ */
+export type ComponentChangeKind = 'added' | 'removed' | 'changed'
+
+export interface ComponentChange {
+  kind: ComponentChangeKind
+  /** The name of the component that has the change */
+  component: string
+  /**
+   * The path to the changed item, for example `webGlExtensions.value.parameters[12]`.
+   * The path of an added or removed component is the component name.
+   */
+  path: string
+  /** The item in the first component list. Missing when the item is added. */
+  before?: unknown
+  /** The item in the second component list. Missing when the item is removed. */
+  after?: unknown
+}
+
+export interface ComponentsDiff {
+  changes: ComponentChange[]
+  /** A short human-readable description of the changes */
+  summary: string
+}
+
+type JsonValue = null | boolean | number | string | JsonValue[] | { [key: string]: JsonValue }
+
+/**
+ * Tells how 2 component lists differ, for example why the visitor identifier has changed.
+ * The components are compared the same way as the visitor identifier treats them:
+ * the durations are ignored, and all the errors are considered equal.
+ * Designed for both browser and server environments.
+ */
+export function diffComponents(before: UnknownComponents, after: UnknownComponents): ComponentsDiff {
+  const changes: ComponentChange[] = []
+
+  for (const key of Object.keys(before)) {
+    if (!(key in after)) {
+      changes.push({ kind: 'removed', component: key, path: key, before: stripDuration(before[key]) })
+    }
+  }
+  for (const key of Object.keys(after)) {
+    if (!(key in before)) {
+      changes.push({ kind: 'added', component: key, path: key, after: stripDuration(after[key]) })
+    } else {
+      diffComponent(key, before[key], after[key], changes)
+    }
+  }
+
+  return { changes, summary: makeSummary(changes) }
+}
+
+function diffComponent(
+  key: string,
+  before: Component<unknown>,
+  after: Component<unknown>,
+  changes: ComponentChange[],
+): void {
+  const isBeforeError = 'error' in before
+  const isAfterError = 'error' in after
+
+  if (isBeforeError && isAfterError) {
+    return
+  }
+  if (isBeforeError || isAfterError) {
+    const [beforeField, afterField] = isBeforeError ? ['error', 'value'] : ['value', 'error']
+    changes.push(
+      { kind: 'removed', component: key, path: `${key}.${beforeField}`, before: getField(before) },
+      { kind: 'added', component: key, path: `${key}.${afterField}`, after: getField(after) },
+    )
+    return
+  }
+
+  diffValues(key, `${key}.value`, toJsonValue(getField(before)), toJsonValue(getField(after)), changes)
+}
+
+function diffValues(
+  componentKey: string,
+  path: string,
+  before: JsonValue | undefined,
+  after: JsonValue | undefined,
+  changes: ComponentChange[],
+): void {
+  if (Array.isArray(before) && Array.isArray(after)) {
+    for (let i = 0; i < Math.max(before.length, after.length); ++i) {
+      diffNestedValues(componentKey, `${path}[${i}]`, before, after, i, changes)
+    }
+    return
+  }
+
+  if (isPlainObject(before) && isPlainObject(after)) {
+    for (const key of getAllKeys(before, after)) {
+      diffNestedValues(componentKey, `${path}${toPathSegment(key)}`, before, after, key, changes)
+    }
+    return
+  }
+
+  if (JSON.stringify(before) !== JSON.stringify(after)) {
+    changes.push({ kind: 'changed', component: componentKey, path, before, after })
+  }
+}
+
+function diffNestedValues<TKey extends string | number>(
+  componentKey: string,
+  path: string,
+  before: Partial<Record<TKey, JsonValue>>,
+  after: Partial<Record<TKey, JsonValue>>,
+  key: TKey,
+  changes: ComponentChange[],
+): void {
+  if (!(key in after)) {
+    changes.push({ kind: 'removed', component: componentKey, path, before: before[key] })
+  } else if (!(key in before)) {
+    changes.push({ kind: 'added', component: componentKey, path, after: after[key] })
+  } else {
+    diffValues(componentKey, path, before[key], after[key], changes)
+  }
+}
+
+function makeSummary(changes: readonly ComponentChange[]): string {
+  if (!changes.length) {
+    return 'No changes'
+  }
+
+  const componentChanges: Record<string, ComponentChange[]> = {}
+  for (const change of changes) {
+    if (!componentChanges[change.component]) {
+      componentChanges[change.component] = []
+    }
+    componentChanges[change.component].push(change)
+  }
+
+  const descriptions: string[] = []
+  for (const key of Object.keys(componentChanges)) {
+    const [firstChange, ...otherChanges] = componentChanges[key]
+    const errorChange = componentChanges[key].find((change) => change.path === `${key}.error`)
+    if (firstChange.path === key) {
+      descriptions.push(`${key} ${firstChange.kind}`)
+    } else if (errorChange) {
+      descriptions.push(errorChange.kind === 'added' ? `${key} failed` : `${key} recovered from error`)
+    } else if (!otherChanges.length) {
+      descriptions.push(`${firstChange.path} ${firstChange.kind}`)
+    } else {
+      descriptions.push(`${key} changed (${otherChanges.length + 1} differences)`)
+    }
+  }
+
+  const count = descriptions.length
+  return `${count} ${count === 1 ? 'component differs' : 'components differ'}: ${descriptions.join(', ')}`
+}
+
+function stripDuration(component: Component<unknown>): { value: unknown } | { error: unknown } {
+  return 'error' in component ? { error: component.error } : { value: component.value }
+}
+
+function getField(component: Component<unknown>): unknown {
+  return 'error' in component ? component.error : component.value
+}
+
+/**
+ * Makes the value look like the visitor identifier sees it
+ */
+function toJsonValue(value: unknown): JsonValue | undefined {
+  const json = JSON.stringify(value)
+  return json === undefined ? undefined : JSON.parse(json)
+}
+
+function isPlainObject(value: JsonValue | undefined): value is { [key: string]: JsonValue } {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function toPathSegment(key: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? `.${key}` : `[${JSON.stringify(key)}]`
+}
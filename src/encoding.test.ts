@@ -0,0 +1,108 @@
+import { hashComponents } from './components'
+import { decodeComponents, encodeComponents } from './encoding'
+import { UnknownComponents } from './utils/entropy_source'
+
+describe('Component encoding', () => {
+  // Close to real components of Chrome
+  const components: UnknownComponents = {
+    fonts: { value: ['Arial Unicode MS', 'Gill Sans', 'Helvetica Neue', 'Menlo'], duration: 64 },
+    domBlockers: { duration: 0, value: undefined },
+    fontPreferences: {
+      value: { default: 147.5625, apple: 147.5625, serif: 147.5625, sans: 144.015625, mono: 132.625, min: 9.34375 },
+      duration: 29,
+    },
+    audio: { value: 124.04347527516074, duration: 5 },
+    screenFrame: { value: [25, 0, 0, null], duration: 1 },
+    canvas: { error: new TypeError('Canvas is blocked'), duration: 11 },
+    languages: { value: [['en-US'], ['en-US', 'en', 'ru']], duration: 0 },
+    colorDepth: { value: 30, duration: 0 },
+    deviceMemory: { value: 0.5, duration: 0 },
+    hardwareConcurrency: { value: 10, duration: 0 },
+    timezone: { value: 'Europe/Berlin', duration: 2 },
+    platform: { value: 'MacIntel', duration: 0 },
+    touchSupport: { value: { maxTouchPoints: 0, touchEvent: false, touchStart: false }, duration: 0 },
+    vendor: { value: 'Google Inc.', duration: 0 },
+    vendorFlavors: { value: ['chrome'], duration: 0 },
+    contrast: { value: -1, duration: 0 },
+    math: { value: { acos: 1.4473588658278522, acosh: 709.889355822726, sin: 0.8178819121159085 }, duration: 1 },
+    architecture: { value: 127, duration: 0 },
+    webGlBasics: {
+      value: {
+        version: 'WebGL 1.0 (OpenGL ES 2.0 Chromium)',
+        vendor: 'WebKit',
+        vendorUnmasked: 'Google Inc. (Apple)',
+        renderer: 'WebKit WebGL',
+        rendererUnmasked: 'ANGLE (Apple, ANGLE Metal Renderer: Apple M1 Pro, Unspecified Version)',
+        shadingLanguageVersion: 'WebGL GLSL ES 1.0 (OpenGL ES GLSL ES 1.0 Chromium)',
+      },
+      duration: 3,
+    },
+    webGlExtensions: {
+      value: {
+        contextAttributes: ['alpha=true', 'antialias=true', 'depth=true', 'powerPreference=default'],
+        parameters: [
+          'ACTIVE_ATTRIBUTES=35721',
+          'ACTIVE_TEXTURE=34016=33984',
+          'ALIASED_LINE_WIDTH_RANGE=33902=1,1',
+          'MAX_TEXTURE_SIZE=3379=16384',
+          'UNKNOWN_PARAMETER=1234=5',
+        ],
+        shaderPrecisions: ['FRAGMENT_SHADER.LOW_FLOAT=127,127,23', 'VERTEX_SHADER.HIGH_INT=31,30,0'],
+        extensions: ['ANGLE_instanced_arrays', 'EXT_blend_minmax', 'EXT_texture_filter_anisotropic'],
+        extensionParameters: ['MAX_TEXTURE_MAX_ANISOTROPY_EXT=34047=16'],
+        unsupportedExtensions: [],
+      },
+      duration: 40,
+    },
+    custom: { value: { nested: [{ '🤔': 'юникод', __proto__: 1 }], big: 2 ** 60, negative: -123456 }, duration: 0.5 },
+  }
+
+  it('keeps the visitor identifier after a round trip', () => {
+    const decoded = decodeComponents(encodeComponents(components))
+    expect(hashComponents(decoded)).toBe(hashComponents(components))
+  })
+
+  it('keeps the durations and the errors', () => {
+    const decoded = decodeComponents(encodeComponents(components))
+    expect(Object.keys(decoded)).toEqual(Object.keys(components))
+    expect(decoded.custom.duration).toBe(0.5)
+    expect(decoded.fonts.duration).toBe(64)
+    const { error } = decoded.canvas as { error: Error }
+    expect(error).toBeInstanceOf(Error)
+    expect(error.name).toBe('TypeError')
+    expect(error.message).toBe('Canvas is blocked')
+  })
+
+  it('stores the values the way JSON does', () => {
+    const decoded = decodeComponents(
+      encodeComponents({
+        nan: { value: [NaN, Infinity, undefined], duration: 0 },
+        object: { value: { a: undefined, b: () => undefined, c: new Date(0) }, duration: 0 },
+        function: { value: () => undefined, duration: 0 },
+        negativeZero: { value: -0, duration: -0 },
+      }),
+    )
+    expect(decoded).toEqual({
+      nan: { value: [null, null, null], duration: 0 },
+      object: { value: { c: '1970-01-01T00:00:00.000Z' }, duration: 0 },
+      function: { value: undefined, duration: 0 },
+      negativeZero: { value: 0, duration: -0 },
+    })
+  })
+
+  it('is compact', () => {
+    const encoded = encodeComponents(components)
+    expect(encoded).toMatch(/^[\w-]*$/)
+    expect(encoded.length).toBeLessThan(JSON.stringify(components).length / 2)
+    expect(encodeComponents({})).toBe('AQA')
+  })
+
+  it('rejects corrupted data', () => {
+    const encoded = encodeComponents(components)
+    expect(() => decodeComponents(encoded.slice(0, -8))).toThrowError(/unexpected end of data/)
+    expect(() => decodeComponents(`${encoded}AAAA`)).toThrowError(/unexpected data at the end/)
+    expect(() => decodeComponents('AgA')).toThrowError(/Unknown encoded components format version: 2/)
+    expect(() => decodeComponents('AQHw')).toThrowError(/unexpected end of data|unexpected tag/)
+    expect(() => decodeComponents('not base64!')).toThrowError(TypeError)
+  })
+})
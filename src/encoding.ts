@@ -0,0 +1,332 @@
+import { UnknownComponents } from './utils/entropy_source'
+import { base64UrlToBytes, bytesToBase64Url, getUTF8Bytes } from './utils/data'
+import { objectToError } from './utils/misc'
+import { getDictionary } from './encoding_dictionary'
+
+/*
+ * The binary format of encoded components:
+ *
+ *   formatVersion: byte
+ *   componentCount: varint
+ *   components: (key: string, duration: number, value: value | error)[]
+ *
+ * Every item starts with a tag byte telling the item type. Strings are coded with the dictionary of the format version
+ * and with the strings met earlier in the same data (back-references). Numbers are stored as integers when possible.
+ */
+
+const currentFormatVersion = 1
+
+const enum Tag {
+  Undefined = 0,
+  Null = 1,
+  False = 2,
+  True = 3,
+  PositiveInteger = 4,
+  NegativeInteger = 5,
+  Float = 6,
+  /** A new string: UTF-8 byte length and the bytes */
+  String = 7,
+  /** A dictionary string or a string met earlier: the index */
+  StringReference = 8,
+  /** A new string starting with a known string: the known string index, then the rest as a new string */
+  PrefixedString = 9,
+  /** The item count and the items */
+  Array = 10,
+  /** The property count and the key-value pairs */
+  Object = 11,
+  /** The error name and the message */
+  Error = 12,
+}
+
+interface Encoder {
+  bytes: number[]
+  /** The indices of the known strings: the dictionary, then the strings met earlier */
+  stringIndices: Map<string, number>
+  stringCount: number
+}
+
+interface Decoder {
+  bytes: Uint8Array
+  position: number
+  /** The known strings: the dictionary, then the strings met earlier */
+  strings: string[]
+}
+
+/**
+ * Encodes the components to a compact URL-safe string, several times shorter than JSON.
+ * Made for sending the components to a server. The durations and the error names and messages are preserved.
+ * The values are stored as JSON stores them, so `decodeComponents` makes components with the same `hashComponents`.
+ * Designed for both browser and server environments.
+ */
+export function encodeComponents(components: UnknownComponents): string {
+  const dictionary = getDictionary(currentFormatVersion) as readonly string[]
+  const encoder: Encoder = { bytes: [currentFormatVersion], stringIndices: new Map(), stringCount: dictionary.length }
+  for (let i = dictionary.length - 1; i >= 0; --i) {
+    // The reverse order makes the first index win when the dictionary has duplicates
+    encoder.stringIndices.set(dictionary[i], i)
+  }
+
+  const keys = Object.keys(components)
+  writeVarint(encoder, keys.length)
+  for (const key of keys) {
+    const component = components[key]
+    writeString(encoder, key)
+    writeValue(encoder, component.duration)
+    if ('error' in component) {
+      const { name, message } = (component.error || {}) as Partial<Record<'name' | 'message', unknown>>
+      encoder.bytes.push(Tag.Error)
+      writeString(encoder, typeof name === 'string' ? name : '')
+      writeString(encoder, typeof message === 'string' ? message : '')
+    } else {
+      writeValue(encoder, toJsonValue(component.value))
+    }
+  }
+
+  return bytesToBase64Url(new Uint8Array(encoder.bytes))
+}
+
+/**
+ * Decodes the components made by `encodeComponents`, including by other versions of this library.
+ * Throws an error when the string is corrupted or made by a newer library version with an unknown format.
+ * Designed for both browser and server environments.
+ */
+export function decodeComponents(encoded: string): UnknownComponents {
+  const bytes = base64UrlToBytes(encoded)
+  const dictionary = getDictionary(bytes[0])
+  if (!dictionary) {
+    throw new Error(`Unknown encoded components format version: ${bytes[0]}`)
+  }
+  const decoder: Decoder = { bytes, position: 1, strings: [...dictionary] }
+
+  const components: UnknownComponents = {}
+  const componentCount = readVarint(decoder)
+  for (let i = 0; i < componentCount; ++i) {
+    const key = readString(decoder, readByte(decoder))
+    const duration = readValue(decoder)
+    if (typeof duration !== 'number') {
+      throw new Error(`Invalid encoded components: the ${key} duration isn't a number`)
+    }
+    let component: UnknownComponents[string]
+    if (bytes[decoder.position] === Tag.Error) {
+      decoder.position++
+      const name = readString(decoder, readByte(decoder))
+      const message = readString(decoder, readByte(decoder))
+      component = { error: objectToError({ name, message }), duration }
+    } else {
+      component = { value: readValue(decoder), duration }
+    }
+    setOwnProperty(components, key, component)
+  }
+
+  if (decoder.position !== bytes.length) {
+    throw new Error('Invalid encoded components: unexpected data at the end')
+  }
+  return components
+}
+
+/**
+ * Makes the value the same as after a round trip through JSON, so that it's stored exactly as the visitor identifier
+ * sees it (e.g. `NaN` turns to `null`, `undefined` object properties disappear)
+ */
+function toJsonValue(value: unknown): unknown {
+  const json = JSON.stringify(value)
+  return json === undefined ? undefined : JSON.parse(json)
+}
+
+function writeValue(encoder: Encoder, value: unknown): void {
+  switch (typeof value) {
+    case 'undefined':
+      encoder.bytes.push(Tag.Undefined)
+      return
+    case 'boolean':
+      encoder.bytes.push(value ? Tag.True : Tag.False)
+      return
+    case 'number':
+      writeNumber(encoder, value)
+      return
+    case 'string':
+      writeString(encoder, value)
+      return
+  }
+  if (value === null) {
+    encoder.bytes.push(Tag.Null)
+    return
+  }
+  if (Array.isArray(value)) {
+    encoder.bytes.push(Tag.Array)
+    writeVarint(encoder, value.length)
+    for (const item of value) {
+      writeValue(encoder, item)
+    }
+    return
+  }
+  const keys = Object.keys(value as Record<string, unknown>)
+  encoder.bytes.push(Tag.Object)
+  writeVarint(encoder, keys.length)
+  for (const key of keys) {
+    writeString(encoder, key)
+    writeValue(encoder, (value as Record<string, unknown>)[key])
+  }
+}
+
+function writeNumber(encoder: Encoder, value: number): void {
+  if (Number.isSafeInteger(value) && !Object.is(value, -0)) {
+    encoder.bytes.push(value < 0 ? Tag.NegativeInteger : Tag.PositiveInteger)
+    writeVarint(encoder, Math.abs(value))
+    return
+  }
+  const floatBytes = new Uint8Array(8)
+  new DataView(floatBytes.buffer).setFloat64(0, value, true)
+  encoder.bytes.push(Tag.Float, ...floatBytes)
+}
+
+function writeString(encoder: Encoder, value: string): void {
+  const index = encoder.stringIndices.get(value)
+  if (index !== undefined) {
+    encoder.bytes.push(Tag.StringReference)
+    writeVarint(encoder, index)
+    return
+  }
+
+  // Strings like "MAX_TEXTURE_SIZE=3379=16384" (WebGL parameters) are coded as a known prefix and a new suffix
+  let prefixIndex: number | undefined
+  let prefixEnd = value.length
+  while (prefixIndex === undefined && (prefixEnd = value.lastIndexOf('=', prefixEnd - 1)) > 0) {
+    prefixIndex = encoder.stringIndices.get(value.slice(0, prefixEnd))
+  }
+  if (prefixIndex === undefined) {
+    encoder.bytes.push(Tag.String)
+  } else {
+    encoder.bytes.push(Tag.PrefixedString)
+    writeVarint(encoder, prefixIndex)
+  }
+  const stringBytes = getUTF8Bytes(prefixIndex === undefined ? value : value.slice(prefixEnd))
+  writeVarint(encoder, stringBytes.length)
+  // The spread operator can exceed the call stack with long strings like canvas images
+  for (let i = 0; i < stringBytes.length; ++i) {
+    encoder.bytes.push(stringBytes[i])
+  }
+
+  // The decoder must add the same strings in the same order
+  encoder.stringIndices.set(value, encoder.stringCount++)
+}
+
+/**
+ * Writes a non-negative integer using 7 bits of each byte, the lowest bits first (LEB128)
+ */
+function writeVarint(encoder: Encoder, value: number): void {
+  while (value >= 0x80) {
+    encoder.bytes.push(value % 0x80 | 0x80)
+    value = Math.floor(value / 0x80)
+  }
+  encoder.bytes.push(value)
+}
+
+function readValue(decoder: Decoder): unknown {
+  const tag = readByte(decoder)
+  switch (tag) {
+    case Tag.Undefined:
+      return undefined
+    case Tag.Null:
+      return null
+    case Tag.False:
+      return false
+    case Tag.True:
+      return true
+    case Tag.PositiveInteger:
+      return readVarint(decoder)
+    case Tag.NegativeInteger:
+      return -readVarint(decoder)
+    case Tag.Float: {
+      const { bytes, position } = decoder
+      checkLength(decoder, 8)
+      decoder.position += 8
+      return new DataView(bytes.buffer, bytes.byteOffset + position, 8).getFloat64(0, true)
+    }
+    case Tag.Array: {
+      const items: unknown[] = []
+      for (let count = readVarint(decoder); count > 0; --count) {
+        items.push(readValue(decoder))
+      }
+      return items
+    }
+    case Tag.Object: {
+      const object: Record<string, unknown> = {}
+      for (let count = readVarint(decoder); count > 0; --count) {
+        const key = readString(decoder, readByte(decoder))
+        setOwnProperty(object, key, readValue(decoder))
+      }
+      return object
+    }
+    default:
+      return readString(decoder, tag)
+  }
+}
+
+function readString(decoder: Decoder, tag: number): string {
+  const { strings } = decoder
+  const readKnownString = () => {
+    const index = readVarint(decoder)
+    if (index >= strings.length) {
+      throw new Error(`Invalid encoded components: unknown string #${index}`)
+    }
+    return strings[index]
+  }
+
+  let value: string
+  switch (tag) {
+    case Tag.StringReference:
+      return readKnownString()
+    case Tag.String:
+      value = readRawString(decoder)
+      break
+    case Tag.PrefixedString:
+      value = readKnownString() + readRawString(decoder)
+      break
+    default:
+      throw new Error(`Invalid encoded components: unexpected tag ${tag} at ${decoder.position - 1}`)
+  }
+
+  strings.push(value)
+  return value
+}
+
+function readRawString(decoder: Decoder): string {
+  const length = readVarint(decoder)
+  checkLength(decoder, length)
+  const { bytes, position } = decoder
+  decoder.position += length
+  return new TextDecoder().decode(bytes.subarray(position, position + length))
+}
+
+function readByte(decoder: Decoder): number {
+  checkLength(decoder, 1)
+  return decoder.bytes[decoder.position++]
+}
+
+function readVarint(decoder: Decoder): number {
+  let result = 0
+  for (let multiplier = 1; ; multiplier *= 0x80) {
+    if (multiplier > Number.MAX_SAFE_INTEGER) {
+      throw new Error('Invalid encoded components: too large number')
+    }
+    const byte = readByte(decoder)
+    result += (byte & 0x7f) * multiplier
+    if (byte < 0x80) {
+      return result
+    }
+  }
+}
+
+function checkLength(decoder: Decoder, length: number): void {
+  if (decoder.position + length > decoder.bytes.length) {
+    throw new Error('Invalid encoded components: unexpected end of data')
+  }
+}
+
+/**
+ * Unlike the assignment, works with keys like `__proto__`
+ */
+function setOwnProperty(object: Record<string, unknown>, key: string, value: unknown): void {
+  Object.defineProperty(object, key, { value, enumerable: true, writable: true, configurable: true })
+}
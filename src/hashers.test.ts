@@ -0,0 +1,51 @@
+import { hashers } from './hashers'
+import { componentsToCanonicalString, hashComponents } from './components'
+import { x64hash128 } from './utils/hashing'
+import { xxHash128 } from './utils/xxhash'
+
+describe('Hashers', () => {
+  const components = {
+    foo: { value: 'Foo', duration: 1 },
+    bar: { value: [1, 2], duration: 2 },
+  }
+
+  it('keeps MurmurHash3 as the default', () => {
+    expect(hashComponents(components)).toBe(x64hash128(componentsToCanonicalString(components)))
+    expect(hashComponents(components, hashers.murmur3)).toBe(hashComponents(components))
+  })
+
+  it('hashes with xxHash', () => {
+    expect(hashComponents(components, hashers.xxHash128)).toBe(xxHash128(componentsToCanonicalString(components)))
+  })
+
+  it('hashes with SHA-256', async () => {
+    expect(await hashers.sha256('abc')).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad')
+    const visitorId = hashComponents(components, hashers.sha256)
+    expect(visitorId).toEqual(jasmine.any(Promise))
+    expect(await visitorId).toMatch(/^[0-9a-f]{64}$/)
+  })
+
+  it('makes keyed hashes with a salt', async () => {
+    const canonicalString = componentsToCanonicalString(components)
+    for (const hasher of [hashers.murmur3, hashers.xxHash128, hashers.sha256]) {
+      const unsalted = await hashComponents(components, hasher)
+      const salted1 = await hashComponents(components, hasher, 'Brand 1')
+      const salted2 = await hashComponents(components, hasher, 'Brand 2')
+      expect(salted1).not.toBe(unsalted)
+      expect(salted1).not.toBe(salted2)
+      expect(await hashComponents(components, hasher, 'Brand 1')).toBe(salted1)
+      expect(await hashComponents(components, hasher, '')).toBe(unsalted)
+      expect(await hasher(canonicalString, 'Brand 1')).toBe(salted1)
+    }
+
+    // Test case 2 from RFC 4231
+    expect(await hashers.sha256('what do ya want for nothing?', 'Jefe')).toBe(
+      '5bdcc146bf60754e6a042426089575c75a003f089d2739839dec58b964ec3843',
+    )
+  })
+
+  it('hashes with a custom hasher', async () => {
+    const hasher = (input: string) => Promise.resolve(`${input.length}`)
+    expect(await hashComponents(components, hasher)).toBe(`${componentsToCanonicalString(components).length}`)
+  })
+})
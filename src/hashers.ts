@@ -0,0 +1,44 @@
+import { x64hash128 } from './utils/hashing'
+import { xxHash128 } from './utils/xxhash'
+import { bytesToHex, hmacSha256Async, sha256Async } from './utils/sha256'
+import { getUTF8Bytes } from './utils/data'
+
+/**
+ * Makes a visitor identifier from the canonical string of the components.
+ * May be asynchronous; then the agent waits for the identifiers before returning the result.
+ * When a salt is given, the identifier must be a keyed hash of the string, so that it can't be linked to
+ * the identifiers with other salts. An empty salt is the same as no salt.
+ */
+export type Hasher = (input: string, salt?: string) => string | Promise<string>
+
+/**
+ * The built-in hashers. The identifiers made by different hashers are unrelated,
+ * so changing the hasher changes the identifiers of all the visitors.
+ */
+export const hashers = {
+  /**
+   * MurmurHash3 x64 128-bit (32 hex characters). The default hasher, the same as in the previous library versions.
+   * The salt turns into the hash seed.
+   */
+  murmur3: (input: string, salt?: string): string => x64hash128(input, salt ? getSaltSeed(salt) : 0),
+  /**
+   * XXH3 128-bit (32 hex characters). Faster than MurmurHash3 on large components, e.g. canvas images.
+   * The salt turns into the hash seed.
+   */
+  xxHash128: (input: string, salt?: string): string => xxHash128(input, salt ? getSaltSeed(salt) : 0),
+  /**
+   * SHA-256 (64 hex characters), a cryptographic hash. With a salt, it's HMAC-SHA256 with the salt as the key.
+   * Uses SubtleCrypto when available, so it's asynchronous.
+   */
+  sha256: async (input: string, salt?: string): Promise<string> => {
+    const bytes = getUTF8Bytes(input)
+    return bytesToHex(await (salt ? hmacSha256Async(getUTF8Bytes(salt), bytes) : sha256Async(bytes)))
+  },
+}
+
+/**
+ * Turns a salt into a 32-bit hash seed
+ */
+export function getSaltSeed(salt: string): number {
+  return parseInt(x64hash128(salt).slice(0, 8), 16)
+}
@@ -1,8 +1,66 @@
-import { load, Agent, LoadOptions, GetOptions, GetResult, hashComponents, componentsToDebugString } from './agent'
-import { BuiltinComponents } from './sources'
-import { Confidence } from './confidence'
-import { Component, UnknownComponents } from './utils/entropy_source'
-import { x64hash128 } from './utils/hashing'
+import {
+  load,
+  Agent,
+  LoadOptions,
+  GetOptions,
+  GetResult,
+  StreamItem,
+  ResultEvent,
+  PersistenceOptions,
+  RefreshEvent,
+  TelegramStorageOptions,
+  componentsToDebugString,
+} from './agent'
+import { hashComponents } from './components'
+import { hashers, Hasher } from './hashers'
+import { registerStrategy, AdaptiveStrategy, EnhancedConfidence, StrategyResult } from './strategies'
+import { TelegramDevice, TelegramStorageType } from './telegram_storage'
+import { TelegramWebAppContext } from './sources/telegram_webapp'
+import { encodeComponents, decodeComponents } from './encoding'
+import {
+  migrateComponents,
+  getSourceSchemas,
+  currentSchemaVersion,
+  ValueType,
+  ValueSchema,
+  SourceSchemas,
+  ComponentsMigration,
+} from './schema'
+import { sourceMetadata, SourceMetadata, StabilityClass, PrivacySensitivity } from './sources/metadata'
+import { BuiltinComponents, VisitorIdTiers } from './sources'
+import { Confidence, ConfidenceBreakdown, ConfidencePenalty, ConfidencePenaltyReason } from './confidence'
+import {
+  Component,
+  UnknownComponents,
+  TimeoutError,
+  SourceStage,
+  SourceStartEvent,
+  SourceCompleteEvent,
+  SourceErrorEvent,
+} from './utils/entropy_source'
+import { hammingDistance, x64hash128 } from './utils/hashing'
+import {
+  compareComponents,
+  matchVisitor,
+  simHashComponents,
+  ComponentMatchStatus,
+  ComponentMatch,
+  ComponentsComparison,
+  CompareOptions,
+  SimHashOptions,
+  MatchVisitorOptions,
+  VisitorMatch,
+} from './similarity'
+import {
+  createSignedPayload,
+  verifySignedPayload,
+  SigningKey,
+  SignedPayload,
+  VerifyOptions,
+  VerificationFailureReason,
+  SignatureVerification,
+} from './signing'
+import { diffComponents, ComponentChangeKind, ComponentChange, ComponentsDiff } from './diff'
 
 // Exports that are under Semantic versioning
 export {
@@ -11,22 +69,102 @@ export {
   LoadOptions,
   GetOptions,
   GetResult,
+  StreamItem,
+  ResultEvent,
+  PersistenceOptions,
+  RefreshEvent,
+  TelegramStorageOptions,
+  TelegramDevice,
+  TelegramStorageType,
+  TelegramWebAppContext,
+  SourceStage,
+  SourceStartEvent,
+  SourceCompleteEvent,
+  SourceErrorEvent,
   hashComponents,
+  hashers,
+  Hasher,
+  registerStrategy,
+  AdaptiveStrategy,
+  EnhancedConfidence,
+  StrategyResult,
+  encodeComponents,
+  decodeComponents,
+  migrateComponents,
+  getSourceSchemas,
+  currentSchemaVersion,
+  ValueType,
+  ValueSchema,
+  SourceSchemas,
+  ComponentsMigration,
+  sourceMetadata,
+  SourceMetadata,
+  StabilityClass,
+  PrivacySensitivity,
   componentsToDebugString,
   Component,
   UnknownComponents,
   BuiltinComponents,
+  VisitorIdTiers,
   Confidence,
+  ConfidenceBreakdown,
+  ConfidencePenalty,
+  ConfidencePenaltyReason,
+  TimeoutError,
+  compareComponents,
+  matchVisitor,
+  simHashComponents,
+  hammingDistance,
+  ComponentMatchStatus,
+  ComponentMatch,
+  ComponentsComparison,
+  CompareOptions,
+  SimHashOptions,
+  MatchVisitorOptions,
+  VisitorMatch,
+  diffComponents,
+  ComponentChangeKind,
+  ComponentChange,
+  ComponentsDiff,
+  createSignedPayload,
+  verifySignedPayload,
+  SigningKey,
+  SignedPayload,
+  VerifyOptions,
+  VerificationFailureReason,
+  SignatureVerification,
 }
 // The default export is a syntax sugar (`import * as FP from '...' → import FP from '...'`).
 // It should contain all the public exported values.
-export default { load, hashComponents, componentsToDebugString }
+export default {
+  load,
+  hashComponents,
+  hashers,
+  registerStrategy,
+  encodeComponents,
+  decodeComponents,
+  migrateComponents,
+  getSourceSchemas,
+  currentSchemaVersion,
+  sourceMetadata,
+  componentsToDebugString,
+  TimeoutError,
+  compareComponents,
+  matchVisitor,
+  simHashComponents,
+  hammingDistance,
+  diffComponents,
+  createSignedPayload,
+  verifySignedPayload,
+}
 
 // The exports below are for private usage. They may change unexpectedly. Use them at your own risk.
 /** Not documented, out of Semantic Versioning, usage is at your own risk */
 export const murmurX64Hash128 = x64hash128
 export { prepareForSources } from './agent'
-export { sources } from './sources'
+export { sources, visitorIdTiers } from './sources'
+export { sourceWeights } from './sources/weights'
+export { sourceEntropy } from './sources/entropy'
 export { getUnstableAudioFingerprint } from './sources/audio'
 export { getUnstableCanvasFingerprint } from './sources/canvas'
 export { getUnstableScreenFrame } from './sources/screen_frame'
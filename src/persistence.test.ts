@@ -0,0 +1,51 @@
+import { version } from '../package.json'
+import { hashComponents } from './components'
+import { makeComponentCache, PersistentStorageType } from './persistence'
+import { UnknownComponents } from './utils/entropy_source'
+
+describe('Component cache', () => {
+  const key = '_fpjs_test_cache'
+  const components: UnknownComponents = {
+    platform: { value: 'MacIntel', duration: 1 },
+    fonts: { value: ['Arial', 'Menlo'], duration: 30 },
+    audio: { error: new TypeError('Fail'), duration: 3 },
+  }
+
+  afterEach(() => {
+    localStorage.removeItem(key)
+  })
+
+  for (const storageType of ['localStorage', 'indexedDB'] as PersistentStorageType[]) {
+    describe(storageType, () => {
+      it('stores components', async () => {
+        const cache = makeComponentCache(storageType, key, 10000)
+        await cache.write(components)
+        const cachedComponents = await makeComponentCache(storageType, key, 10000).read()
+        expect(cachedComponents).toEqual({
+          platform: components.platform,
+          fonts: components.fonts,
+          audio: { error: jasmine.any(Error), duration: 3 },
+        })
+        expect(cachedComponents && 'error' in cachedComponents.audio && cachedComponents.audio.error).toEqual(
+          jasmine.objectContaining({ name: 'TypeError', message: 'Fail' }),
+        )
+        expect(hashComponents(cachedComponents ?? {})).toBe(hashComponents(components))
+      })
+
+      it('drops outdated components', async () => {
+        await makeComponentCache(storageType, key, 10000).write(components)
+        expect(await makeComponentCache(storageType, key, 0).read()).toBeUndefined()
+      })
+    })
+  }
+
+  it('drops components of another library version', async () => {
+    localStorage.setItem(key, JSON.stringify({ version: `${version}-other`, time: Date.now(), components }))
+    expect(await makeComponentCache('localStorage', key, 10000).read()).toBeUndefined()
+  })
+
+  it('ignores corrupted data', async () => {
+    localStorage.setItem(key, '{"version":')
+    expect(await makeComponentCache('localStorage', key, 10000).read()).toBeUndefined()
+  })
+})
@@ -0,0 +1,136 @@
+import { version } from '../package.json'
+import { UnknownComponents } from './utils/entropy_source'
+import { errorToObject, objectToError } from './utils/misc'
+import { getLocalStorageObject } from './sources/local_storage'
+import { getIndexedDBObject } from './sources/indexed_db'
+
+export type PersistentStorageType = 'localStorage' | 'indexedDB'
+
+/**
+ * Stores the components between page loads
+ */
+export interface ComponentCache {
+  /** Resolves with `undefined` when there are no fresh components in the storage. Never rejects. */
+  read(): Promise<UnknownComponents | undefined>
+  /** Never rejects */
+  write(components: UnknownComponents): Promise<void>
+}
+
+interface RawStorage {
+  get(): Promise<string | undefined>
+  set(value: string): Promise<void>
+}
+
+interface CacheRecord {
+  version: string
+  time: number
+  components: UnknownComponents
+}
+
+const indexedDBName = 'fpjs'
+const indexedDBStoreName = 'cache'
+
+/**
+ * Makes a cache that keeps the components in the browser storage for `ttl` milliseconds.
+ * The cache is dropped when the library version changes.
+ * When the storage is unavailable or blocked, the cache stays empty.
+ */
+export function makeComponentCache(storageType: PersistentStorageType, key: string, ttl: number): ComponentCache {
+  const storage = storageType === 'indexedDB' ? makeIndexedDBStorage(key) : makeLocalStorage(key)
+
+  return {
+    async read() {
+      try {
+        const json = await storage?.get()
+        const record = json === undefined ? undefined : parseCacheRecord(json)
+        if (record && record.version === version && record.time <= Date.now() && Date.now() - record.time < ttl) {
+          return record.components
+        }
+      } catch (e) {
+        // The data is corrupted or the storage has been blocked. Acting as if there is no cache.
+      }
+      return undefined
+    },
+    async write(components) {
+      try {
+        await storage?.set(stringifyCacheRecord({ version, time: Date.now(), components }))
+      } catch (e) {
+        // The storage is full or has been blocked. The cache is optional, so the error is ignored.
+      }
+    },
+  }
+}
+
+function makeLocalStorage(key: string): RawStorage | undefined {
+  const localStorage = getLocalStorageObject()
+  if (!localStorage) {
+    return undefined
+  }
+
+  return {
+    get: async () => localStorage.getItem(key) ?? undefined,
+    set: async (value) => localStorage.setItem(key, value),
+  }
+}
+
+function makeIndexedDBStorage(key: string): RawStorage | undefined {
+  const indexedDB = getIndexedDBObject()
+  if (!indexedDB) {
+    return undefined
+  }
+
+  let databasePromise: Promise<IDBDatabase> | undefined
+
+  const openDatabase = () => {
+    if (!databasePromise) {
+      databasePromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(indexedDBName, 1)
+        request.onupgradeneeded = () => request.result.createObjectStore(indexedDBStoreName)
+        request.onsuccess = () => resolve(request.result)
+        request.onerror = () => reject(request.error)
+      })
+    }
+    return databasePromise
+  }
+
+  const runRequest = async <T>(mode: IDBTransactionMode, makeRequest: (store: IDBObjectStore) => IDBRequest<T>) => {
+    const database = await openDatabase()
+    return new Promise<T>((resolve, reject) => {
+      const request = makeRequest(database.transaction(indexedDBStoreName, mode).objectStore(indexedDBStoreName))
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+    })
+  }
+
+  return {
+    get: async () => {
+      const value = await runRequest('readonly', (store) => store.get(key))
+      return typeof value === 'string' ? value : undefined
+    },
+    set: async (value) => {
+      await runRequest('readwrite', (store) => store.put(value, key))
+    },
+  }
+}
+
+function stringifyCacheRecord(record: CacheRecord): string {
+  return JSON.stringify(record, (_key, value) => (value instanceof Error ? errorToObject(value) : value))
+}
+
+function parseCacheRecord(json: string): CacheRecord | undefined {
+  const record = JSON.parse(json)
+  if (typeof record !== 'object' || record === null || typeof record.components !== 'object') {
+    return undefined
+  }
+
+  // The errors have turned into plain objects in the storage
+  const components: UnknownComponents = record.components
+  for (const key of Object.keys(components)) {
+    const component = components[key]
+    if ('error' in component) {
+      components[key] = { error: objectToError(component.error), duration: component.duration }
+    }
+  }
+
+  return record
+}
@@ -0,0 +1,116 @@
+import { sources } from './sources'
+import { checkValue, currentSchemaVersion, getSourceSchemas, migrateComponents } from './schema'
+
+describe('Component schema', () => {
+  it('describes all the built-in sources', () => {
+    expect(Object.keys(getSourceSchemas() || {}).sort()).toEqual(Object.keys(sources).sort())
+    expect(getSourceSchemas(currentSchemaVersion)).toBe(getSourceSchemas())
+    expect(getSourceSchemas(0)).toBeUndefined()
+    expect(getSourceSchemas(currentSchemaVersion + 1)).toBeUndefined()
+  })
+
+  describe('checkValue', () => {
+    it('checks primitives', () => {
+      expect(checkValue('foo', { type: 'string' })).toBeUndefined()
+      expect(checkValue(1, { type: 'string' })).toBe('must be a string')
+      expect(checkValue(undefined, { type: 'string' })).toBe('must be a string')
+      expect(checkValue(undefined, { type: 'string', optional: true })).toBeUndefined()
+      expect(checkValue(null, { type: 'null' })).toBeUndefined()
+      expect(checkValue(false, { type: 'boolean' })).toBeUndefined()
+      expect(checkValue('p3', { enum: ['srgb', 'p3'] })).toBeUndefined()
+      expect(checkValue('a', { enum: ['srgb', 'p3'] })).toBe('must be one of srgb, p3')
+      expect(checkValue({}, {})).toBeUndefined()
+    })
+
+    it('checks numbers', () => {
+      expect(checkValue(1.5, { type: 'number' })).toBeUndefined()
+      expect(checkValue(NaN, { type: 'number' })).toBe('must be a number')
+      expect(checkValue(1.5, { type: 'integer' })).toBe('must be an integer')
+      expect(checkValue(8, { type: 'integer', minimum: 1, maximum: 8 })).toBeUndefined()
+      expect(checkValue(9, { type: 'integer', minimum: 1, maximum: 8 })).toBe('must be an integer from 1 to 8')
+      expect(checkValue(-1, { type: 'number', minimum: 0 })).toBe('must be a number from 0')
+      expect(checkValue(2, { type: 'number', maximum: 1 })).toBe('must be a number up to 1')
+    })
+
+    it('checks arrays and objects', () => {
+      const arraySchema = { type: 'array', items: { type: 'string' }, length: 2 } as const
+      expect(checkValue(['a', 'b'], arraySchema)).toBeUndefined()
+      expect(checkValue(['a'], arraySchema)).toBe('must be an array of 2 items')
+      expect(checkValue(['a', 1], arraySchema)).toBe('item 1 must be a string')
+      expect(checkValue({}, arraySchema)).toBe('must be an array')
+
+      const objectSchema = {
+        type: 'object',
+        properties: { name: { type: 'string' } },
+        additionalProperties: { type: 'number' },
+      } as const
+      expect(checkValue({ name: 'a', width: 1 }, objectSchema)).toBeUndefined()
+      expect(checkValue({ width: 1 }, objectSchema)).toBe('name must be a string')
+      expect(checkValue({ name: 'a', width: '1' }, objectSchema)).toBe('width must be a number')
+      expect(checkValue([], objectSchema)).toBe('must be an object')
+    })
+
+    it('checks alternatives', () => {
+      const schema = { anyOf: [{ enum: [-1, -2] }, { type: 'string' }] } as const
+      expect(checkValue(-2, schema)).toBeUndefined()
+      expect(checkValue('en', schema)).toBeUndefined()
+      expect(checkValue(1, schema)).toBe('must be one of -1, -2 or a string')
+    })
+  })
+
+  describe('migrateComponents', () => {
+    const componentsV1 = {
+      platform: { value: 'Win32', duration: 0 },
+      canvas: { error: new Error('Test'), duration: 1 },
+      custom: { value: 'foo', duration: 2 },
+    }
+
+    it('upgrades components', () => {
+      const migration = migrateComponents(componentsV1, 1, 2)
+      expect(migration.components).toEqual(componentsV1)
+      expect(migration.components.platform).not.toBe(componentsV1.platform)
+      expect(migration.unmappable).toEqual(['telegramWebApp', 'behavioral', 'webView', 'network', 'haptic'])
+      expect(migration.removed).toEqual([])
+    })
+
+    it('downgrades components', () => {
+      const migration = migrateComponents(
+        { ...componentsV1, webView: { value: { isWebView: false }, duration: 0 }, haptic: { value: {}, duration: 0 } },
+        2,
+        1,
+      )
+      expect(migration.components).toEqual(componentsV1)
+      expect(migration.unmappable).toEqual([])
+      expect(migration.removed).toEqual(['webView', 'haptic'])
+    })
+
+    it('moves the Telegram launch data out of the component', () => {
+      const identity = { isTelegramWebView: true, telegramVersion: '8.0', platform: 'ios', bridgeFingerprint: null }
+      const componentsV2 = {
+        telegramWebApp: { value: { ...identity, webAppData: { initData: 'auth_date=1760512392' } }, duration: 0 },
+      }
+      expect(migrateComponents(componentsV2, 2, 3).components).toEqual({
+        telegramWebApp: { value: identity, duration: 0 },
+      })
+      expect(migrateComponents({ telegramWebApp: { value: identity, duration: 0 } }, 3, 2).components).toEqual({
+        telegramWebApp: { value: { ...identity, webAppData: null }, duration: 0 },
+      })
+      expect(migrateComponents({ telegramWebApp: { value: null, duration: 0 } }, 2, 3).unmappable).toContain(
+        'telegramWebApp',
+      )
+    })
+
+    it('migrates to the current version by default', () => {
+      expect(migrateComponents(componentsV1, currentSchemaVersion)).toEqual({
+        components: componentsV1,
+        unmappable: [],
+        removed: [],
+      })
+    })
+
+    it('rejects unknown versions', () => {
+      expect(() => migrateComponents(componentsV1, 0)).toThrowError(RangeError)
+      expect(() => migrateComponents(componentsV1, 1, currentSchemaVersion + 1)).toThrowError(RangeError)
+    })
+  })
+})
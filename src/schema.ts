@@ -0,0 +1,424 @@
+import { Component, UnknownComponents } from './utils/entropy_source'
+
+export type ValueType = 'string' | 'number' | 'integer' | 'boolean' | 'null' | 'array' | 'object'
+
+/**
+ * Describes a component value. A simplified JSON Schema: all the given requirements must be met.
+ */
+export interface ValueSchema {
+  type?: ValueType
+  /** The value may be `undefined` */
+  optional?: boolean
+  /** The value must be one of the given primitives */
+  enum?: readonly unknown[]
+  /** The value must match at least one of the schemas */
+  anyOf?: readonly ValueSchema[]
+  /** The minimum of a number */
+  minimum?: number
+  /** The maximum of a number */
+  maximum?: number
+  /** The schema of the array items */
+  items?: ValueSchema
+  /** The exact length of an array */
+  length?: number
+  /** The schemas of the known object properties */
+  properties?: Readonly<Record<string, ValueSchema>>
+  /** The schema of the object properties that aren't listed in `properties` */
+  additionalProperties?: ValueSchema
+}
+
+/**
+ * The value schemas of the built-in entropy sources
+ */
+export type SourceSchemas = Readonly<Record<string, ValueSchema>>
+
+/**
+ * Converts a component value to the shape of another schema version.
+ * Throws an error when the value can't be converted.
+ */
+type ValueConverter = (value: unknown) => unknown
+
+interface SchemaVersion {
+  sources: SourceSchemas
+  /** How to convert the values from the previous version. Only the sources that have changed the shape are listed. */
+  upgrades?: Readonly<Record<string, ValueConverter>>
+  /** How to convert the values to the previous version. Only the sources that have changed the shape are listed. */
+  downgrades?: Readonly<Record<string, ValueConverter>>
+}
+
+export interface ComponentsMigration {
+  components: UnknownComponents
+  /**
+   * The components that the target version has, but that can't be made from the given components,
+   * for example because the entropy source doesn't exist in the original version
+   */
+  unmappable: string[]
+  /** The given components that the target version doesn't have */
+  removed: string[]
+}
+
+/*
+ * The limits are much wider than the real-world values in order not to reject rare but real devices.
+ * A value out of the limits is either a bug or a forgery.
+ */
+const maxScreenSize = 32768
+const maxScreenOffset = maxScreenSize * 4
+
+const stringSchema: ValueSchema = { type: 'string' }
+const booleanSchema: ValueSchema = { type: 'boolean' }
+const optionalBooleanSchema: ValueSchema = { type: 'boolean', optional: true }
+const stringArraySchema: ValueSchema = { type: 'array', items: stringSchema }
+const numberRecordSchema: ValueSchema = { type: 'object', additionalProperties: { type: 'number' } }
+const webGlSchema: ValueSchema = { anyOf: [{ enum: [-1, -2] }, { type: 'object' }] }
+
+function makeNullable(schema: ValueSchema): ValueSchema {
+  return { anyOf: [{ enum: [null] }, schema] }
+}
+
+/**
+ * The components of FingerprintJS 4
+ */
+const schemaV1: SourceSchemas = {
+  fonts: stringArraySchema,
+  domBlockers: { ...stringArraySchema, optional: true },
+  fontPreferences: numberRecordSchema,
+  audio: {
+    anyOf: [
+      { type: 'integer', minimum: -4, maximum: -1 },
+      { type: 'number', minimum: 0, maximum: 1000 },
+    ],
+  },
+  screenFrame: {
+    type: 'array',
+    length: 4,
+    items: makeNullable({ type: 'number', minimum: -maxScreenOffset, maximum: maxScreenOffset }),
+    optional: true,
+  },
+  canvas: { type: 'object', properties: { winding: booleanSchema, geometry: stringSchema, text: stringSchema } },
+  osCpu: { type: 'string', optional: true },
+  languages: { type: 'array', items: stringArraySchema },
+  colorDepth: { type: 'integer', minimum: 1, maximum: 64 },
+  deviceMemory: { type: 'number', minimum: 0.125, maximum: 1024, optional: true },
+  screenResolution: {
+    type: 'array',
+    length: 2,
+    items: makeNullable({ type: 'number', minimum: 1, maximum: maxScreenSize }),
+    optional: true,
+  },
+  hardwareConcurrency: { type: 'integer', minimum: 1, maximum: 256, optional: true },
+  timezone: stringSchema,
+  sessionStorage: booleanSchema,
+  localStorage: booleanSchema,
+  indexedDB: optionalBooleanSchema,
+  openDatabase: booleanSchema,
+  cpuClass: { type: 'string', optional: true },
+  platform: stringSchema,
+  plugins: {
+    type: 'array',
+    items: { type: 'object', properties: { name: stringSchema, description: stringSchema } },
+    optional: true,
+  },
+  touchSupport: {
+    type: 'object',
+    properties: {
+      maxTouchPoints: { type: 'integer', minimum: 0, maximum: 256 },
+      touchEvent: booleanSchema,
+      touchStart: booleanSchema,
+    },
+  },
+  vendor: stringSchema,
+  vendorFlavors: stringArraySchema,
+  cookiesEnabled: booleanSchema,
+  colorGamut: { enum: ['srgb', 'p3', 'rec2020'], optional: true },
+  invertedColors: optionalBooleanSchema,
+  forcedColors: optionalBooleanSchema,
+  monochrome: { type: 'integer', minimum: 0, maximum: 100, optional: true },
+  contrast: { enum: [-1, 0, 1, 10], optional: true },
+  reducedMotion: optionalBooleanSchema,
+  reducedTransparency: optionalBooleanSchema,
+  hdr: optionalBooleanSchema,
+  math: numberRecordSchema,
+  pdfViewerEnabled: optionalBooleanSchema,
+  architecture: { type: 'integer', minimum: 0, maximum: 255 },
+  applePay: { enum: [1, 0, -1, -2, -3] },
+  privateClickMeasurement: { type: 'string', optional: true },
+  audioBaseLatency: {
+    anyOf: [
+      { type: 'integer', minimum: -3, maximum: -1 },
+      { type: 'number', minimum: 0, maximum: 10 },
+    ],
+  },
+  dateTimeLocale: { anyOf: [{ enum: [-1, -2, -3] }, stringSchema] },
+  webGlBasics: webGlSchema,
+  webGlExtensions: webGlSchema,
+}
+
+/**
+ * The components of FingerprintJS 5: the enhanced sources are added
+ */
+const schemaV2: SourceSchemas = {
+  ...schemaV1,
+  telegramWebApp: {
+    type: 'object',
+    properties: {
+      isTelegramWebView: booleanSchema,
+      telegramVersion: makeNullable(stringSchema),
+      platform: makeNullable(stringSchema),
+    },
+  },
+  behavioral: { type: 'object', properties: { isCollecting: booleanSchema } },
+  webView: {
+    type: 'object',
+    properties: { isWebView: booleanSchema, webViewType: stringSchema, injectedObjects: stringArraySchema },
+  },
+  network: { type: 'object' },
+  haptic: { type: 'object' },
+}
+
+/**
+ * The Telegram Mini App launch data (`webAppData`) is moved from the components to `GetResult.telegramContext`
+ */
+const schemaV3: SourceSchemas = {
+  ...schemaV2,
+  telegramWebApp: {
+    type: 'object',
+    properties: {
+      isTelegramWebView: booleanSchema,
+      telegramVersion: makeNullable(stringSchema),
+      platform: makeNullable(stringSchema),
+      bridgeFingerprint: makeNullable({
+        type: 'object',
+        properties: {
+          availableMethods: stringArraySchema,
+          bridgeVersion: stringSchema,
+          supportedEvents: stringArraySchema,
+        },
+      }),
+    },
+  },
+}
+
+/**
+ * The schema versions in the chronological order, the first version is 1.
+ * Add a new version when a built-in entropy source is added, removed or changes the value shape.
+ * The released versions must never change.
+ */
+const schemaVersions: readonly SchemaVersion[] = [
+  { sources: schemaV1 },
+  { sources: schemaV2 },
+  {
+    sources: schemaV3,
+    upgrades: {
+      telegramWebApp: (value) => {
+        const { webAppData, ...identity } = value as Record<string, unknown>
+        return identity
+      },
+    },
+    downgrades: {
+      // The launch data isn't kept in the components anymore
+      telegramWebApp: (value) => ({ ...(value as Record<string, unknown>), webAppData: null }),
+    },
+  },
+]
+
+/**
+ * The schema version of the components made by this version of the library
+ */
+export const currentSchemaVersion = schemaVersions.length
+
+/**
+ * Returns the value schemas of the built-in entropy sources of the given schema version,
+ * or `undefined` when the version is unknown
+ */
+export function getSourceSchemas(version = currentSchemaVersion): SourceSchemas | undefined {
+  return schemaVersions[version - 1]?.sources
+}
+
+/**
+ * Checks the value against the schema.
+ * Returns a human-readable description of the problem, or `undefined` when the value matches the schema.
+ */
+export function checkValue(value: unknown, schema: Readonly<ValueSchema>): string | undefined {
+  if (value === undefined && schema.optional) {
+    return undefined
+  }
+  if (schema.anyOf) {
+    return checkAnyOf(value, schema.anyOf)
+  }
+  if (schema.enum) {
+    return schema.enum.includes(value) ? undefined : `must be one of ${schema.enum.map(String).join(', ')}`
+  }
+  switch (schema.type) {
+    case 'number':
+    case 'integer':
+      return checkNumber(value, schema)
+    case 'array':
+      return checkArray(value, schema)
+    case 'object':
+      return checkObject(value, schema)
+    case 'string':
+    case 'boolean':
+      return typeof value === schema.type ? undefined : `must be a ${schema.type}`
+    case 'null':
+      return value === null ? undefined : 'must be null'
+    default:
+      return undefined
+  }
+}
+
+/**
+ * Converts the components made by one schema version to the shape of another schema version,
+ * for example to compare components stored long ago with fresh components.
+ * The components of custom entropy sources are kept as is.
+ * Designed for both browser and server environments.
+ */
+export function migrateComponents(
+  components: UnknownComponents,
+  fromVersion: number,
+  toVersion = currentSchemaVersion,
+): ComponentsMigration {
+  for (const version of [fromVersion, toVersion]) {
+    if (!getSourceSchemas(version)) {
+      throw new RangeError(`Unknown component schema version: ${version}`)
+    }
+  }
+
+  const fromSources = getSourceSchemas(fromVersion) as SourceSchemas
+  const toSources = getSourceSchemas(toVersion) as SourceSchemas
+  const migration: ComponentsMigration = { components: {}, unmappable: [], removed: [] }
+
+  for (const key of Object.keys(components)) {
+    if (isOwnKey(fromSources, key) && !isOwnKey(toSources, key)) {
+      migration.removed.push(key)
+      continue
+    }
+    const component = migrateComponent(components[key], key, fromVersion, toVersion)
+    if (component) {
+      migration.components[key] = component
+    } else {
+      migration.unmappable.push(key)
+    }
+  }
+
+  for (const key of Object.keys(toSources)) {
+    if (!isOwnKey(fromSources, key) && !isOwnKey(migration.components, key) && !migration.unmappable.includes(key)) {
+      migration.unmappable.push(key)
+    }
+  }
+
+  return migration
+}
+
+/**
+ * Returns `undefined` when the component can't be converted
+ */
+function migrateComponent(
+  component: Component<unknown>,
+  key: string,
+  fromVersion: number,
+  toVersion: number,
+): Component<unknown> | undefined {
+  // The errors have no shape
+  if ('error' in component) {
+    return component
+  }
+
+  let { value } = component
+  try {
+    for (let version = fromVersion; version < toVersion; ++version) {
+      const convert = schemaVersions[version].upgrades?.[key]
+      value = convert ? convert(value) : value
+    }
+    for (let version = fromVersion; version > toVersion; --version) {
+      const convert = schemaVersions[version - 1].downgrades?.[key]
+      value = convert ? convert(value) : value
+    }
+  } catch {
+    return undefined
+  }
+  return { value, duration: component.duration }
+}
+
+function checkAnyOf(value: unknown, schemas: readonly ValueSchema[]): string | undefined {
+  const issues: string[] = []
+  for (const schema of schemas) {
+    const issue = checkValue(value, schema)
+    if (!issue) {
+      return undefined
+    }
+    // The repeated "must be" is removed: "must be a string or a number"
+    issues.push(issues.length ? issue.replace(/^must (be )?/, '') : issue)
+  }
+  return issues.join(' or ')
+}
+
+function checkNumber(value: unknown, schema: Readonly<ValueSchema>): string | undefined {
+  const { type, minimum = -Infinity, maximum = Infinity } = schema
+  if (
+    typeof value === 'number' &&
+    isFinite(value) &&
+    (type !== 'integer' || value % 1 === 0) &&
+    value >= minimum &&
+    value <= maximum
+  ) {
+    return undefined
+  }
+  let issue = `must be ${type === 'integer' ? 'an integer' : 'a number'}`
+  if (isFinite(minimum)) {
+    issue += ` from ${minimum}`
+  }
+  if (isFinite(maximum)) {
+    issue += `${isFinite(minimum) ? ' to' : ' up to'} ${maximum}`
+  }
+  return issue
+}
+
+function checkArray(value: unknown, schema: Readonly<ValueSchema>): string | undefined {
+  const { items, length } = schema
+  if (!Array.isArray(value)) {
+    return 'must be an array'
+  }
+  if (length !== undefined && value.length !== length) {
+    return `must be an array of ${length} items`
+  }
+  if (items) {
+    for (let i = 0; i < value.length; ++i) {
+      const issue = checkValue(value[i], items)
+      if (issue) {
+        return `item ${i} ${issue}`
+      }
+    }
+  }
+  return undefined
+}
+
+function checkObject(value: unknown, schema: Readonly<ValueSchema>): string | undefined {
+  const { properties = {}, additionalProperties } = schema
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return 'must be an object'
+  }
+  for (const key of Object.keys(properties)) {
+    const issue = checkValue((value as Record<string, unknown>)[key], properties[key])
+    if (issue) {
+      return `${key} ${issue}`
+    }
+  }
+  if (additionalProperties) {
+    for (const key of Object.keys(value)) {
+      const issue = isOwnKey(properties, key)
+        ? undefined
+        : checkValue((value as Record<string, unknown>)[key], additionalProperties)
+      if (issue) {
+        return `${key} ${issue}`
+      }
+    }
+  }
+  return undefined
+}
+
+/**
+ * Prevents treating `Object.prototype` properties (e.g. `constructor`) as known keys
+ */
+function isOwnKey(object: Readonly<Record<string, unknown>>, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(object, key)
+}
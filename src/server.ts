@@ -0,0 +1,139 @@
+/*
+ * The entry point for servers and other environments without a browser.
+ * Nothing here uses browser API, so it's safe to import in Node.js.
+ */
+
+import { hashComponents } from './components'
+import { hashers, Hasher } from './hashers'
+import { encodeComponents, decodeComponents } from './encoding'
+import {
+  migrateComponents,
+  getSourceSchemas,
+  currentSchemaVersion,
+  ValueType,
+  ValueSchema,
+  SourceSchemas,
+  ComponentsMigration,
+} from './schema'
+import { sourceMetadata, SourceMetadata, StabilityClass, PrivacySensitivity } from './sources/metadata'
+import {
+  Confidence,
+  ConfidenceBreakdown,
+  ConfidencePenalty,
+  ConfidencePenaltyReason,
+  recalculateConfidence,
+} from './confidence'
+import { BuiltinComponents } from './sources'
+import { Component, UnknownComponents } from './utils/entropy_source'
+import { hammingDistance } from './utils/hashing'
+import { ComponentIssue, ComponentsValidation, validateComponents } from './validation'
+import {
+  compareComponents,
+  matchVisitor,
+  simHashComponents,
+  ComponentMatchStatus,
+  ComponentMatch,
+  ComponentsComparison,
+  CompareOptions,
+  SimHashOptions,
+  MatchVisitorOptions,
+  VisitorMatch,
+} from './similarity'
+import { diffComponents, ComponentChangeKind, ComponentChange, ComponentsDiff } from './diff'
+import {
+  verifySignedPayload,
+  SigningKey,
+  SignedPayload,
+  VerifyOptions,
+  VerificationFailureReason,
+  SignatureVerification,
+} from './signing'
+import {
+  validateTelegramInitData,
+  TelegramUser,
+  TelegramChat,
+  TelegramInitData,
+  TelegramInitDataOptions,
+  TelegramInitDataFailureReason,
+  TelegramInitDataValidation,
+} from './telegram_init_data'
+
+// Exports that are under Semantic versioning
+export {
+  hashComponents,
+  hashers,
+  Hasher,
+  encodeComponents,
+  decodeComponents,
+  migrateComponents,
+  getSourceSchemas,
+  currentSchemaVersion,
+  ValueType,
+  ValueSchema,
+  SourceSchemas,
+  ComponentsMigration,
+  sourceMetadata,
+  SourceMetadata,
+  StabilityClass,
+  PrivacySensitivity,
+  validateComponents,
+  ComponentIssue,
+  ComponentsValidation,
+  recalculateConfidence,
+  Confidence,
+  ConfidenceBreakdown,
+  ConfidencePenalty,
+  ConfidencePenaltyReason,
+  Component,
+  UnknownComponents,
+  BuiltinComponents,
+  compareComponents,
+  matchVisitor,
+  simHashComponents,
+  hammingDistance,
+  ComponentMatchStatus,
+  ComponentMatch,
+  ComponentsComparison,
+  CompareOptions,
+  SimHashOptions,
+  MatchVisitorOptions,
+  VisitorMatch,
+  diffComponents,
+  ComponentChangeKind,
+  ComponentChange,
+  ComponentsDiff,
+  verifySignedPayload,
+  SigningKey,
+  SignedPayload,
+  VerifyOptions,
+  VerificationFailureReason,
+  SignatureVerification,
+  validateTelegramInitData,
+  TelegramUser,
+  TelegramChat,
+  TelegramInitData,
+  TelegramInitDataOptions,
+  TelegramInitDataFailureReason,
+  TelegramInitDataValidation,
+}
+// The default export is a syntax sugar (`import * as FP from '...' → import FP from '...'`).
+// It should contain all the public exported values.
+export default {
+  hashComponents,
+  hashers,
+  encodeComponents,
+  decodeComponents,
+  migrateComponents,
+  getSourceSchemas,
+  currentSchemaVersion,
+  sourceMetadata,
+  validateComponents,
+  recalculateConfidence,
+  compareComponents,
+  matchVisitor,
+  simHashComponents,
+  hammingDistance,
+  diffComponents,
+  verifySignedPayload,
+  validateTelegramInitData,
+}
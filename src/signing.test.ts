@@ -0,0 +1,102 @@
+import { version } from '../package.json'
+import { hashComponents } from './components'
+import { createSignedPayload, verifySignedPayload } from './signing'
+import { UnknownComponents } from './utils/entropy_source'
+
+describe('Signed payload', () => {
+  const key = 'Secret key'
+  const components: UnknownComponents = {
+    platform: { value: 'MacIntel', duration: 1 },
+    fonts: { value: ['Arial', 'Menlo'], duration: 30 },
+    audio: { error: new Error('Fail'), duration: 3 },
+  }
+  const result = { visitorId: hashComponents(components), components, version }
+
+  it('signs and verifies', async () => {
+    const payload = await createSignedPayload(result, key)
+    expect(payload).toEqual({
+      ...result,
+      timestamp: jasmine.any(Number),
+      nonce: jasmine.stringMatching(/^[0-9a-f]{32}$/),
+      signature: jasmine.stringMatching(/^[0-9a-f]{64}$/),
+    })
+    expect(verifySignedPayload(payload, key)).toEqual({ valid: true, payload })
+
+    // After transferring as JSON
+    const transferredPayload = JSON.parse(JSON.stringify(payload))
+    expect(verifySignedPayload(transferredPayload, key)).toEqual({ valid: true, payload: transferredPayload })
+  })
+
+  it('makes unique payloads', async () => {
+    const payload1 = await createSignedPayload(result, key)
+    const payload2 = await createSignedPayload(result, key)
+    expect(payload1.nonce).not.toBe(payload2.nonce)
+    expect(payload1.signature).not.toBe(payload2.signature)
+  })
+
+  it('detects forgery', async () => {
+    const payload = await createSignedPayload(result, key)
+    expect(verifySignedPayload(payload, 'Another key')).toEqual({ valid: false, reason: 'signature' })
+    expect(verifySignedPayload({ ...payload, visitorId: 'foo' }, key)).toEqual({ valid: false, reason: 'signature' })
+    expect(
+      verifySignedPayload(
+        { ...payload, components: { ...components, platform: { value: 'Win32', duration: 1 } } },
+        key,
+      ),
+    ).toEqual({ valid: false, reason: 'signature' })
+    expect(verifySignedPayload({ ...payload, timestamp: payload.timestamp + 1 }, key)).toEqual({
+      valid: false,
+      reason: 'signature',
+    })
+  })
+
+  it('detects a wrong visitor identifier', async () => {
+    const payload = await createSignedPayload({ ...result, visitorId: 'foo' }, key)
+    expect(verifySignedPayload(payload, key)).toEqual({ valid: false, reason: 'visitorId' })
+  })
+
+  it('verifies a salted visitor identifier', async () => {
+    const salt = 'Brand 1'
+    const payload = await createSignedPayload(
+      { ...result, visitorId: hashComponents(components, undefined, salt) },
+      key,
+    )
+    expect(verifySignedPayload(payload, key, { salt })).toEqual({ valid: true, payload })
+    expect(verifySignedPayload(payload, key)).toEqual({ valid: false, reason: 'visitorId' })
+  })
+
+  it('detects stale payloads', async () => {
+    const payload = await createSignedPayload(result, key)
+    expect(verifySignedPayload(payload, key, { now: payload.timestamp + 300001 })).toEqual({
+      valid: false,
+      reason: 'expired',
+    })
+    expect(verifySignedPayload(payload, key, { now: payload.timestamp + 1000, maxAgeMs: 999 })).toEqual({
+      valid: false,
+      reason: 'expired',
+    })
+    expect(verifySignedPayload(payload, key, { now: payload.timestamp - 60001 })).toEqual({
+      valid: false,
+      reason: 'expired',
+    })
+    expect(verifySignedPayload(payload, key, { now: payload.timestamp + 1000 }).valid).toBeTrue()
+  })
+
+  it('detects malformed payloads', () => {
+    expect(verifySignedPayload(null, key)).toEqual({ valid: false, reason: 'malformed' })
+    expect(verifySignedPayload({ visitorId: 'foo' }, key)).toEqual({ valid: false, reason: 'malformed' })
+    expect(
+      verifySignedPayload(
+        { visitorId: 'foo', components: { foo: null }, version, timestamp: 0, nonce: '', signature: '' },
+        key,
+      ),
+    ).toEqual({ valid: false, reason: 'malformed' })
+  })
+
+  it('signs with a binary key', async () => {
+    const binaryKey = new Uint8Array([1, 2, 3, 4])
+    const payload = await createSignedPayload(result, binaryKey)
+    expect(verifySignedPayload(payload, binaryKey).valid).toBeTrue()
+    expect(verifySignedPayload(payload, new Uint8Array([1, 2, 3])).valid).toBeFalse()
+  })
+})
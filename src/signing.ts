@@ -0,0 +1,171 @@
+import { componentsToCanonicalString, hashComponents } from './components'
+import { UnknownComponents } from './utils/entropy_source'
+import { getUTF8Bytes } from './utils/data'
+import { bytesToHex, hmacSha256, hmacSha256Async } from './utils/sha256'
+
+/**
+ * A secret key of a signature. A string is converted to UTF8 bytes.
+ */
+export type SigningKey = string | Uint8Array
+
+/**
+ * A visitor identifier with the components it's made from, signed together with a timestamp and a nonce
+ */
+export interface SignedPayload {
+  visitorId: string
+  components: UnknownComponents
+  /** The library version that has made the components */
+  version: string
+  /** The time of signing (milliseconds since the Unix epoch) */
+  timestamp: number
+  /** A random string that makes every payload unique */
+  nonce: string
+  /** HMAC-SHA256 of the other fields (hex) */
+  signature: string
+}
+
+export interface VerifyOptions {
+  /**
+   * The maximum age of a payload in milliseconds
+   * @default 300000 (5 minutes)
+   */
+  maxAgeMs?: number
+  /**
+   * How much (milliseconds) the payload timestamp may be ahead of the current time due to the clocks difference
+   * @default 60000 (1 minute)
+   */
+  maxClockSkewMs?: number
+  /**
+   * The current time (milliseconds since the Unix epoch)
+   * @default Date.now()
+   */
+  now?: number
+  /**
+   * The `salt` option given to `load()`, required to check the visitor identifier
+   */
+  salt?: string
+}
+
+/**
+ * - `malformed` The payload doesn't have the expected shape
+ * - `signature` The signature doesn't match the payload
+ * - `visitorId` The visitor identifier isn't made from the components
+ * - `expired` The payload is too old or is from the future
+ */
+export type VerificationFailureReason = 'malformed' | 'signature' | 'visitorId' | 'expired'
+
+export type SignatureVerification =
+  | { valid: true; payload: SignedPayload }
+  | { valid: false; reason: VerificationFailureReason }
+
+/**
+ * Signs the visitor identifier and the components so that the server can detect forged and replayed payloads.
+ * Uses SubtleCrypto when available.
+ * Remember that the key is visible to anyone who inspects the page code, so the signature only raises the bar.
+ */
+export async function createSignedPayload(
+  result: Readonly<Pick<SignedPayload, 'visitorId' | 'components' | 'version'>>,
+  key: SigningKey,
+): Promise<SignedPayload> {
+  const unsignedPayload: Omit<SignedPayload, 'signature'> = {
+    visitorId: result.visitorId,
+    components: result.components,
+    version: result.version,
+    timestamp: Date.now(),
+    nonce: makeNonce(),
+  }
+  const signature = await hmacSha256Async(toBytes(key), makeSignedMessage(unsignedPayload))
+  return { ...unsignedPayload, signature: bytesToHex(signature) }
+}
+
+/**
+ * Checks the signature, the visitor identifier and the freshness of a payload made by `createSignedPayload`.
+ * Designed for both browser and server environments, doesn't require SubtleCrypto.
+ * To prevent replay attacks completely, also check that the nonce hasn't been used during the last `maxAgeMs`.
+ */
+export function verifySignedPayload(
+  payload: unknown,
+  key: SigningKey,
+  { maxAgeMs = 300000, maxClockSkewMs = 60000, now = Date.now(), salt }: Readonly<VerifyOptions> = {},
+): SignatureVerification {
+  if (!isSignedPayload(payload)) {
+    return { valid: false, reason: 'malformed' }
+  }
+
+  const expectedSignature = bytesToHex(hmacSha256(toBytes(key), makeSignedMessage(payload)))
+  if (!areStringsEqualInConstantTime(payload.signature, expectedSignature)) {
+    return { valid: false, reason: 'signature' }
+  }
+
+  if (hashComponents(payload.components, undefined, salt) !== payload.visitorId) {
+    return { valid: false, reason: 'visitorId' }
+  }
+
+  if (payload.timestamp > now + maxClockSkewMs || now - payload.timestamp > maxAgeMs) {
+    return { valid: false, reason: 'expired' }
+  }
+
+  return { valid: true, payload }
+}
+
+/**
+ * The components are serialized the same way as for the visitor identifier,
+ * so the signature doesn't depend on how the payload is transferred (e.g. errors turn to plain objects in JSON).
+ */
+function makeSignedMessage(payload: Readonly<Omit<SignedPayload, 'signature'>>): Uint8Array {
+  const { version, timestamp, nonce, visitorId, components } = payload
+  return getUTF8Bytes(JSON.stringify([version, timestamp, nonce, visitorId, componentsToCanonicalString(components)]))
+}
+
+/**
+ * Makes 128 random bits as a hex string
+ */
+export function makeNonce(): string {
+  const bytes = new Uint8Array(16)
+  if (typeof crypto !== 'undefined' && crypto.getRandomValues) {
+    crypto.getRandomValues(bytes)
+  } else {
+    for (let i = 0; i < bytes.length; ++i) {
+      bytes[i] = Math.floor(Math.random() * 256)
+    }
+  }
+  return bytesToHex(bytes)
+}
+
+function toBytes(key: SigningKey): Uint8Array {
+  return typeof key === 'string' ? getUTF8Bytes(key) : key
+}
+
+function isSignedPayload(payload: unknown): payload is SignedPayload {
+  if (typeof payload !== 'object' || payload === null) {
+    return false
+  }
+  const { visitorId, components, version, timestamp, nonce, signature } = payload as Record<string, unknown>
+  return (
+    typeof visitorId === 'string' &&
+    typeof components === 'object' &&
+    components !== null &&
+    Object.keys(components).every((key) => {
+      const component = (components as Record<string, unknown>)[key]
+      return typeof component === 'object' && component !== null
+    }) &&
+    typeof version === 'string' &&
+    typeof timestamp === 'number' &&
+    typeof nonce === 'string' &&
+    typeof signature === 'string'
+  )
+}
+
+/**
+ * Prevents timing attacks on the signature comparison
+ */
+export function areStringsEqualInConstantTime(string1: string, string2: string): boolean {
+  if (string1.length !== string2.length) {
+    return false
+  }
+  let difference = 0
+  for (let i = 0; i < string1.length; ++i) {
+    difference |= string1.charCodeAt(i) ^ string2.charCodeAt(i)
+  }
+  return difference === 0
+}
@@ -0,0 +1,112 @@
+import { UnknownComponents } from './utils/entropy_source'
+import { hammingDistance } from './utils/hashing'
+import { compareComponents, matchVisitor, simHashComponents } from './similarity'
+
+describe('Component similarity', () => {
+  const components: UnknownComponents = {
+    platform: { value: 'MacIntel', duration: 1 },
+    fonts: { value: ['Arial', 'Menlo'], duration: 30 },
+    webGlExtensions: { value: { extensions: ['A', 'B'], parameters: [1, 2] }, duration: 10 },
+    audio: { error: new Error('Fail'), duration: 3 },
+  }
+
+  describe('compareComponents', () => {
+    it('matches equal components', () => {
+      const comparison = compareComponents(components, { ...components, platform: { value: 'MacIntel', duration: 5 } })
+      expect(comparison.score).toBe(1)
+      expect(comparison.components).toEqual({
+        platform: { status: 'match', weight: jasmine.any(Number) },
+        fonts: { status: 'match', weight: jasmine.any(Number) },
+        webGlExtensions: { status: 'match', weight: jasmine.any(Number) },
+        audio: { status: 'match', weight: jasmine.any(Number) },
+      })
+    })
+
+    it('gives a partial score to drifted components', () => {
+      const comparison = compareComponents(components, {
+        ...components,
+        webGlExtensions: { value: { extensions: ['A', 'B', 'C'], parameters: [1, 2] }, duration: 10 },
+      })
+      expect(comparison.score).toBeGreaterThan(0.5)
+      expect(comparison.score).toBeLessThan(1)
+      expect(comparison.components.webGlExtensions.status).toBe('mismatch')
+      expect(comparison.components.fonts.status).toBe('match')
+    })
+
+    it('treats a component present on one side as missing', () => {
+      const { audio, ...otherComponents } = components
+      const comparison = compareComponents(otherComponents, { ...components, foo: { value: 1, duration: 0 } })
+      expect(comparison.components.audio).toEqual({ status: 'missing', weight: jasmine.any(Number) })
+      expect(comparison.components.foo).toEqual({ status: 'missing', weight: 1 })
+      expect(comparison.score).toBeLessThan(1)
+    })
+
+    it('applies custom weights', () => {
+      const comparison = compareComponents(
+        { a: { value: 1, duration: 0 }, b: { value: 2, duration: 0 } },
+        { a: { value: 1, duration: 0 }, b: { value: 3, duration: 0 } },
+        { weights: { a: 3, b: 1 } },
+      )
+      expect(comparison.score).toBe(0.75)
+    })
+  })
+
+  describe('matchVisitor', () => {
+    it('finds the most similar candidate', () => {
+      const candidates = [
+        {
+          visitorId: 'other',
+          components: { ...components, fonts: { value: [], duration: 0 }, platform: { value: 'Win32', duration: 0 } },
+        },
+        { visitorId: 'drifted', components: { ...components, audio: { value: 124.04, duration: 0 } } },
+        { visitorId: 'unrelated', components: {} },
+      ]
+      const match = matchVisitor(components, candidates, { threshold: 0.5 })
+      expect(match?.candidate.visitorId).toBe('drifted')
+      expect(match?.comparison.components.audio.status).toBe('mismatch')
+    })
+
+    it('returns nothing when no candidate reaches the threshold', () => {
+      const candidates = [{ components: { platform: { value: 'Win32', duration: 0 } } }]
+      expect(matchVisitor(components, candidates)).toBeUndefined()
+    })
+  })
+
+  describe('simHashComponents', () => {
+    it('ignores the durations', () => {
+      expect(simHashComponents(components)).toBe(
+        simHashComponents({ ...components, platform: { value: 'MacIntel', duration: 100 } }),
+      )
+    })
+
+    it('changes the hash gradually', () => {
+      const hash = simHashComponents(components)
+      const driftedHash = simHashComponents({ ...components, platform: { value: 'Win32', duration: 1 } })
+      const otherHash = simHashComponents({
+        ...components,
+        platform: { value: 'Win32', duration: 1 },
+        fonts: { value: ['Arial'], duration: 30 },
+        webGlExtensions: { value: { extensions: ['C'], parameters: [3] }, duration: 10 },
+      })
+      expect(hammingDistance(hash, driftedHash)).toBeLessThan(hammingDistance(hash, otherHash))
+    })
+
+    it('applies custom weights', () => {
+      const driftedComponents = { ...components, fonts: { value: ['Arial'], duration: 30 } }
+      expect(simHashComponents(components, { weights: { fonts: 0 } })).toBe(
+        simHashComponents(driftedComponents, { weights: { fonts: 0 } }),
+      )
+    })
+
+    it('makes unrelated hashes with different salts', () => {
+      const hash = simHashComponents(components, { salt: 'Brand 1' })
+      const driftedHash = simHashComponents(
+        { ...components, platform: { value: 'Win32', duration: 1 } },
+        { salt: 'Brand 1' },
+      )
+      expect(hash).toBe(simHashComponents(components, { salt: 'Brand 1' }))
+      expect(hammingDistance(hash, driftedHash)).toBeLessThan(hammingDistance(hash, simHashComponents(components)))
+      expect(simHashComponents(components, { salt: '' })).toBe(simHashComponents(components))
+    })
+  })
+})
@@ -0,0 +1,145 @@
+import { Component, UnknownComponents } from './utils/entropy_source'
+import { simHash64 } from './utils/hashing'
+import { getAllKeys } from './utils/data'
+import { defaultSourceWeight, sourceWeights } from './sources/weights'
+import { getSaltSeed } from './hashers'
+
+/**
+ * - `match` The component values are equal (or both the components have errors)
+ * - `mismatch` The component values are different
+ * - `missing` Only one of the component lists has the component
+ */
+export type ComponentMatchStatus = 'match' | 'mismatch' | 'missing'
+
+export interface ComponentMatch {
+  status: ComponentMatchStatus
+  /** How much the component affects the similarity score */
+  weight: number
+}
+
+export interface ComponentsComparison {
+  /**
+   * A number between 0 and 1. The weighted share of the matching components.
+   */
+  score: number
+  /**
+   * The keys are the component names
+   */
+  components: Record<string, ComponentMatch>
+}
+
+export interface CompareOptions {
+  /**
+   * Overrides the built-in component weights. The keys are the component names.
+   * Set 0 to ignore a component.
+   */
+  weights?: Readonly<Partial<Record<string, number>>>
+}
+
+export interface MatchVisitorOptions extends CompareOptions {
+  /**
+   * The minimal similarity score of a candidate to match
+   * @default 0.9
+   */
+  threshold?: number
+}
+
+export interface SimHashOptions extends CompareOptions {
+  /**
+   * The `salt` option given to `load()`. Only the hashes with the same salt can be compared.
+   */
+  salt?: string
+}
+
+export interface VisitorMatch<TCandidate> {
+  candidate: TCandidate
+  comparison: ComponentsComparison
+}
+
+/**
+ * Compares 2 component lists and tells how likely they belong to the same visitor.
+ * Unlike the visitor identifier, the score changes gradually when a few components change,
+ * e.g. after a browser update.
+ * Designed for both browser and server environments.
+ */
+export function compareComponents(
+  components1: UnknownComponents,
+  components2: UnknownComponents,
+  { weights = {} }: Readonly<CompareOptions> = {},
+): ComponentsComparison {
+  const componentMatches: Record<string, ComponentMatch> = {}
+  let totalWeight = 0
+  let matchWeight = 0
+
+  for (const key of getAllKeys(components1, components2)) {
+    const weight = getWeight(key, weights)
+    const status = compareComponent(components1[key], components2[key])
+    componentMatches[key] = { status, weight }
+    totalWeight += weight
+    if (status === 'match') {
+      matchWeight += weight
+    }
+  }
+
+  return {
+    score: totalWeight > 0 ? matchWeight / totalWeight : 1,
+    components: componentMatches,
+  }
+}
+
+/**
+ * Finds the candidate which components are the most similar to the given components.
+ * Returns `undefined` if no candidate reaches the threshold.
+ */
+export function matchVisitor<TCandidate extends { components: UnknownComponents }>(
+  components: UnknownComponents,
+  candidates: readonly TCandidate[],
+  { threshold = 0.9, ...compareOptions }: Readonly<MatchVisitorOptions> = {},
+): VisitorMatch<TCandidate> | undefined {
+  let bestMatch: VisitorMatch<TCandidate> | undefined
+
+  for (const candidate of candidates) {
+    const comparison = compareComponents(components, candidate.components, compareOptions)
+    if (comparison.score >= threshold && (!bestMatch || comparison.score > bestMatch.comparison.score)) {
+      bestMatch = { candidate, comparison }
+    }
+  }
+
+  return bestMatch
+}
+
+/**
+ * Makes a locality-sensitive hash (64 bit SimHash) of the components.
+ * Component lists that differ in a few components get hashes that differ in a few bits,
+ * so the hashes can be compared using `hammingDistance` without storing the components.
+ * The components are weighted the same way as `compareComponents` does.
+ */
+export function simHashComponents(
+  components: UnknownComponents,
+  { weights = {}, salt }: Readonly<SimHashOptions> = {},
+): string {
+  const features: Array<[string, number]> = []
+  for (const key of Object.keys(components)) {
+    features.push([`${key}:${getComparableValue(components[key])}`, getWeight(key, weights)])
+  }
+  return simHash64(features, salt ? getSaltSeed(salt) : 0)
+}
+
+function getWeight(key: string, customWeights: Readonly<Partial<Record<string, number>>>): number {
+  return customWeights[key] ?? sourceWeights[key as keyof typeof sourceWeights] ?? defaultSourceWeight
+}
+
+function compareComponent(
+  component1: Component<unknown> | undefined,
+  component2: Component<unknown> | undefined,
+): ComponentMatchStatus {
+  if (!component1 || !component2) {
+    return 'missing'
+  }
+  // The same way as the visitor identifier treats the components
+  return getComparableValue(component1) === getComparableValue(component2) ? 'match' : 'mismatch'
+}
+
+function getComparableValue(component: Component<unknown>): string | undefined {
+  return 'error' in component ? 'error' : JSON.stringify(component.value)
+}
@@ -1,5 +1,5 @@
 import * as browser from '../utils/browser'
-import { isPromise, suppressUnhandledRejectionWarning } from '../utils/async'
+import { isPromise, makeAbortError, onAbort, suppressUnhandledRejectionWarning } from '../utils/async'
 
 export const enum SpecialFingerprint {
   /** The browser is known for always suspending audio context, thus making fingerprinting impossible */
@@ -17,6 +17,10 @@ const enum InnerErrorName {
   Suspended = 'suspended',
 }
 
+type Options = {
+  signal?: AbortSignal
+}
+
 /**
  * A deep description: https://fingerprint.com/blog/audio-fingerprinting/
  * Inspired by and based on https://github.com/cozylife/audio-fingerprint
@@ -24,21 +28,22 @@ const enum InnerErrorName {
  * A version of the entropy source with stabilization to make it suitable for static fingerprinting.
  * Audio signal is noised in private mode of Safari 17, so audio fingerprinting is skipped in Safari 17.
  */
-export default function getAudioFingerprint(): number | (() => Promise<number>) {
+export default function getAudioFingerprint({ signal }: Options = {}): number | (() => Promise<number>) {
   if (doesBrowserPerformAntifingerprinting()) {
     return SpecialFingerprint.KnownForAntifingerprinting
   }
 
-  return getUnstableAudioFingerprint()
+  return getUnstableAudioFingerprint(signal)
 }
 
 /**
  * A version of the entropy source without stabilization.
+ * When the signal aborts, the audio context stops rendering and is released.
  *
  * Warning for package users:
  * This function is out of Semantic Versioning, i.e. can change unexpectedly. Usage is at your own risk.
  */
-export function getUnstableAudioFingerprint(): number | (() => Promise<number>) {
+export function getUnstableAudioFingerprint(signal?: AbortSignal): number | (() => Promise<number>) {
   const w = window
   const AudioContext = w.OfflineAudioContext || w.webkitOfflineAudioContext
   if (!AudioContext) {
@@ -72,7 +77,7 @@ export function getUnstableAudioFingerprint(): number | (() => Promise<number>)
   compressor.connect(context.destination)
   oscillator.start(0)
 
-  const [renderPromise, finishRendering] = startRenderingAudio(context)
+  const [renderPromise, finishRendering] = startRenderingAudio(context, signal)
   // Suppresses the console error message in case when the fingerprint fails before requested
   const fingerprintPromise = suppressUnhandledRejectionWarning(
     renderPromise.then(
@@ -115,19 +120,29 @@ function doesBrowserPerformAntifingerprinting() {
 /**
  * Starts rendering the audio context.
  * When the returned function is called, the render process starts finishing.
+ * When the signal aborts, the retries stop and the promise rejects.
  */
-function startRenderingAudio(context: OfflineAudioContext) {
+function startRenderingAudio(context: OfflineAudioContext, signal?: AbortSignal) {
   const renderTryMaxCount = 3
   const renderRetryDelay = 500
   const runningMaxAwaitTime = 500
   const runningSufficientTime = 5000
   let finalize = () => undefined as void
+  let stopWatchingAbort = () => undefined as void
 
   const resultPromise = new Promise<AudioBuffer>((resolve, reject) => {
     let isFinalized = false
+    let isAborted = false
     let renderTryCount = 0
     let startedRunningAt = 0
 
+    // Nothing refers the audio context after an abort, so the context gets garbage collected
+    stopWatchingAbort = onAbort(signal, () => {
+      isAborted = true
+      context.oncomplete = null
+      reject(makeAbortError())
+    })
+
     context.oncomplete = (event) => resolve(event.renderedBuffer)
 
     const startRunningTimeout = () => {
@@ -138,6 +153,10 @@ function startRenderingAudio(context: OfflineAudioContext) {
     }
 
     const tryRender = () => {
+      if (isAborted) {
+        return
+      }
+
       try {
         const renderingPromise = context.startRendering()
 
@@ -190,6 +209,8 @@ function startRenderingAudio(context: OfflineAudioContext) {
     }
   })
 
+  resultPromise.then(stopWatchingAbort, stopWatchingAbort)
+
   return [resultPromise, finalize] as const
 }
 
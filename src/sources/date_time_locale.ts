@@ -12,13 +12,16 @@ export const enum Status {
  *
  * The return type is a union instead of a const enum due to the difficulty of embedding const enums in other projects.
  * This makes integration simpler and more elegant.
+ *
+ * The function is self-contained (uses nothing from the outer scope) to be able to run in a worker.
+ * The const enum values are inlined during the compilation.
  */
 export default function getDateTimeLocale(): string | -1 | -2 | -3 {
-  if (!window.Intl) {
+  if (!self.Intl) {
     return Status.IntlAPINotSupported
   }
 
-  const DateTimeFormat = window.Intl.DateTimeFormat
+  const DateTimeFormat = self.Intl.DateTimeFormat
 
   if (!DateTimeFormat) {
     return Status.DateTimeFormatNotSupported
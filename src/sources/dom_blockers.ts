@@ -1,7 +1,7 @@
 import { isAndroid, isWebKit } from '../utils/browser'
 import { selectorToElement } from '../utils/dom'
 import { countTruthy } from '../utils/data'
-import { wait } from '../utils/async'
+import { throwIfAborted, wait } from '../utils/async'
 
 type Filters = Record<string, string[]>
 
@@ -288,6 +288,7 @@ export function getFilters(): Filters {
 
 type Options = {
   debug?: boolean
+  signal?: AbortSignal
 }
 
 /**
@@ -299,7 +300,7 @@ type Options = {
  * So empty array shouldn't be treated as "no blockers", it should be treated as "no signal".
  * If you are a website owner, don't make your visitors want to disable content blockers.
  */
-export default async function getDomBlockers({ debug }: Options = {}): Promise<string[] | undefined> {
+export default async function getDomBlockers({ debug, signal }: Options = {}): Promise<string[] | undefined> {
   if (!isApplicable()) {
     return undefined
   }
@@ -307,7 +308,7 @@ export default async function getDomBlockers({ debug }: Options = {}): Promise<s
   const filters = getFilters()
   const filterNames = Object.keys(filters) as Array<keyof typeof filters>
   const allSelectors = ([] as string[]).concat(...filterNames.map((filterName) => filters[filterName]))
-  const blockedSelectors = await getBlockedSelectors(allSelectors)
+  const blockedSelectors = await getBlockedSelectors(allSelectors, signal)
 
   if (debug) {
     printDebug(filters, blockedSelectors)
@@ -328,7 +329,10 @@ export function isApplicable(): boolean {
   return isWebKit() || isAndroid()
 }
 
-export async function getBlockedSelectors<T extends string>(selectors: readonly T[]): Promise<{ [K in T]?: true }> {
+export async function getBlockedSelectors<T extends string>(
+  selectors: readonly T[],
+  signal?: AbortSignal,
+): Promise<{ [K in T]?: true }> {
   const d = document
   const root = d.createElement('div')
   const elements = new Array<HTMLElement>(selectors.length)
@@ -353,7 +357,9 @@ export async function getBlockedSelectors<T extends string>(selectors: readonly
   // document.body can be null while the page is loading
   while (!d.body) {
     await wait(50)
+    throwIfAborted(signal)
   }
+  throwIfAborted(signal)
   d.body.appendChild(root)
 
   try {
@@ -0,0 +1,16 @@
+import { sources } from './index'
+import { pickSourceMetadata } from './metadata'
+
+/**
+ * The approximate effective entropy (bits) of the built-in components that have regular values.
+ * Made from the `entropy` fields of `sourceMetadata`. Used to calculate the confidence score.
+ *
+ * This value isn't restricted by Semantic Versioning, i.e. it may be changed without bumping minor or major version of
+ * this package.
+ */
+export const sourceEntropy: Readonly<Record<keyof typeof sources, number>> = pickSourceMetadata('entropy')
+
+/**
+ * The entropy of a custom component, which has no entry in `sourceMetadata`
+ */
+export const defaultSourceEntropy = 0.5
@@ -10,6 +10,10 @@ type WritableCSSStyles = Partial<Pick<CSSStyleDeclaration, WritableCSSProperties
 
 type Preset = [style?: WritableCSSStyles, text?: string]
 
+type Options = {
+  signal?: AbortSignal
+}
+
 /**
  * We use m or w because these two characters take up the maximum width.
  * Also there are a couple of ligatures.
@@ -51,7 +55,7 @@ export const presets: Record<string, Preset> = {
  * but seems like it's impossible: https://stackoverflow.com/q/1713771/1118709.
  * The "min" and the "mono" (only on Windows) value may change when the page is zoomed in Firefox 87.
  */
-export default function getFontPreferences(): Promise<Record<string, number>> {
+export default function getFontPreferences({ signal }: Options = {}): Promise<Record<string, number>> {
   return withNaturalFonts((document, container) => {
     const elements: Record<string, HTMLElement> = {}
     const sizes: Record<string, number> = {}
@@ -82,7 +86,7 @@ export default function getFontPreferences(): Promise<Record<string, number>> {
     }
 
     return sizes
-  })
+  }, signal)
 }
 
 /**
@@ -92,6 +96,7 @@ export default function getFontPreferences(): Promise<Record<string, number>> {
  */
 function withNaturalFonts<T>(
   action: (document: Document, container: HTMLElement) => MaybePromise<T>,
+  signal?: AbortSignal,
   containerWidthPx = 4000,
 ): Promise<T> {
   /*
@@ -138,26 +143,31 @@ function withNaturalFonts<T>(
    * - IE 11, Edge 18: offsetWidth = 100% reliable;
    * - IE 11, Edge 18: getBoundingClientRect = 100% reliable;
    */
-  return withIframe((_, iframeWindow) => {
-    const iframeDocument = iframeWindow.document
-    const iframeBody = iframeDocument.body
-
-    const bodyStyle = iframeBody.style
-    bodyStyle.width = `${containerWidthPx}px`
-    bodyStyle.webkitTextSizeAdjust = bodyStyle.textSizeAdjust = 'none'
-
-    // See the big comment above
-    if (isChromium()) {
-      iframeBody.style.zoom = `${1 / iframeWindow.devicePixelRatio}`
-    } else if (isWebKit()) {
-      iframeBody.style.zoom = 'reset'
-    }
-
-    // See the big comment above
-    const linesOfText = iframeDocument.createElement('div')
-    linesOfText.textContent = [...Array((containerWidthPx / 20) << 0)].map(() => 'word').join(' ')
-    iframeBody.appendChild(linesOfText)
+  return withIframe(
+    (_, iframeWindow) => {
+      const iframeDocument = iframeWindow.document
+      const iframeBody = iframeDocument.body
+
+      const bodyStyle = iframeBody.style
+      bodyStyle.width = `${containerWidthPx}px`
+      bodyStyle.webkitTextSizeAdjust = bodyStyle.textSizeAdjust = 'none'
+
+      // See the big comment above
+      if (isChromium()) {
+        iframeBody.style.zoom = `${1 / iframeWindow.devicePixelRatio}`
+      } else if (isWebKit()) {
+        iframeBody.style.zoom = 'reset'
+      }
 
-    return action(iframeDocument, iframeBody)
-  }, '<!doctype html><html><head><meta name="viewport" content="width=device-width, initial-scale=1">')
+      // See the big comment above
+      const linesOfText = iframeDocument.createElement('div')
+      linesOfText.textContent = [...Array((containerWidthPx / 20) << 0)].map(() => 'word').join(' ')
+      iframeBody.appendChild(linesOfText)
+
+      return action(iframeDocument, iframeBody)
+    },
+    '<!doctype html><html><head><meta name="viewport" content="width=device-width, initial-scale=1">',
+    undefined,
+    signal,
+  )
 }
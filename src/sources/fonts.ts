@@ -67,82 +67,91 @@ const fontList = [
   'ZWAdobeF',
 ] as const
 
+type Options = {
+  signal?: AbortSignal
+}
+
 // kudos to http://www.lalit.org/lab/javascript-css-font-detect/
-export default function getFonts(): Promise<string[]> {
+export default function getFonts({ signal }: Options = {}): Promise<string[]> {
   // Running the script in an iframe makes it not affect the page look and not be affected by the page CSS. See:
   // https://github.com/fingerprintjs/fingerprintjs/issues/592
   // https://github.com/fingerprintjs/fingerprintjs/issues/628
-  return withIframe(async (_, { document }) => {
-    const holder = document.body
-    holder.style.fontSize = textSize
-
-    // div to load spans for the default fonts and the fonts to detect
-    const spansContainer = document.createElement('div')
-    spansContainer.style.setProperty('visibility', 'hidden', 'important')
-
-    const defaultWidth: Partial<Record<string, number>> = {}
-    const defaultHeight: Partial<Record<string, number>> = {}
-
-    // creates a span where the fonts will be loaded
-    const createSpan = (fontFamily: string) => {
-      const span = document.createElement('span')
-      const { style } = span
-      style.position = 'absolute'
-      style.top = '0'
-      style.left = '0'
-      style.fontFamily = fontFamily
-      span.textContent = testString
-      spansContainer.appendChild(span)
-      return span
-    }
-
-    // creates a span and load the font to detect and a base font for fallback
-    const createSpanWithFonts = (fontToDetect: string, baseFont: string) => {
-      return createSpan(`'${fontToDetect}',${baseFont}`)
-    }
-
-    // creates spans for the base fonts and adds them to baseFontsDiv
-    const initializeBaseFontsSpans = () => {
-      return baseFonts.map(createSpan)
-    }
-
-    // creates spans for the fonts to detect and adds them to fontsDiv
-    const initializeFontsSpans = () => {
-      // Stores {fontName : [spans for that font]}
-      const spans: Record<string, HTMLSpanElement[]> = {}
-
-      for (const font of fontList) {
-        spans[font] = baseFonts.map((baseFont) => createSpanWithFonts(font, baseFont))
+  return withIframe(
+    async (_, { document }) => {
+      const holder = document.body
+      holder.style.fontSize = textSize
+
+      // div to load spans for the default fonts and the fonts to detect
+      const spansContainer = document.createElement('div')
+      spansContainer.style.setProperty('visibility', 'hidden', 'important')
+
+      const defaultWidth: Partial<Record<string, number>> = {}
+      const defaultHeight: Partial<Record<string, number>> = {}
+
+      // creates a span where the fonts will be loaded
+      const createSpan = (fontFamily: string) => {
+        const span = document.createElement('span')
+        const { style } = span
+        style.position = 'absolute'
+        style.top = '0'
+        style.left = '0'
+        style.fontFamily = fontFamily
+        span.textContent = testString
+        spansContainer.appendChild(span)
+        return span
       }
 
-      return spans
-    }
+      // creates a span and load the font to detect and a base font for fallback
+      const createSpanWithFonts = (fontToDetect: string, baseFont: string) => {
+        return createSpan(`'${fontToDetect}',${baseFont}`)
+      }
 
-    // checks if a font is available
-    const isFontAvailable = (fontSpans: HTMLElement[]) => {
-      return baseFonts.some(
-        (baseFont, baseFontIndex) =>
-          fontSpans[baseFontIndex].offsetWidth !== defaultWidth[baseFont] ||
-          fontSpans[baseFontIndex].offsetHeight !== defaultHeight[baseFont],
-      )
-    }
+      // creates spans for the base fonts and adds them to baseFontsDiv
+      const initializeBaseFontsSpans = () => {
+        return baseFonts.map(createSpan)
+      }
 
-    // create spans for base fonts
-    const baseFontsSpans = initializeBaseFontsSpans()
+      // creates spans for the fonts to detect and adds them to fontsDiv
+      const initializeFontsSpans = () => {
+        // Stores {fontName : [spans for that font]}
+        const spans: Record<string, HTMLSpanElement[]> = {}
 
-    // create spans for fonts to detect
-    const fontsSpans = initializeFontsSpans()
+        for (const font of fontList) {
+          spans[font] = baseFonts.map((baseFont) => createSpanWithFonts(font, baseFont))
+        }
 
-    // add all the spans to the DOM
-    holder.appendChild(spansContainer)
+        return spans
+      }
 
-    // get the default width for the three base fonts
-    for (let index = 0; index < baseFonts.length; index++) {
-      defaultWidth[baseFonts[index]] = baseFontsSpans[index].offsetWidth // width for the default font
-      defaultHeight[baseFonts[index]] = baseFontsSpans[index].offsetHeight // height for the default font
-    }
+      // checks if a font is available
+      const isFontAvailable = (fontSpans: HTMLElement[]) => {
+        return baseFonts.some(
+          (baseFont, baseFontIndex) =>
+            fontSpans[baseFontIndex].offsetWidth !== defaultWidth[baseFont] ||
+            fontSpans[baseFontIndex].offsetHeight !== defaultHeight[baseFont],
+        )
+      }
+
+      // create spans for base fonts
+      const baseFontsSpans = initializeBaseFontsSpans()
+
+      // create spans for fonts to detect
+      const fontsSpans = initializeFontsSpans()
+
+      // add all the spans to the DOM
+      holder.appendChild(spansContainer)
+
+      // get the default width for the three base fonts
+      for (let index = 0; index < baseFonts.length; index++) {
+        defaultWidth[baseFonts[index]] = baseFontsSpans[index].offsetWidth // width for the default font
+        defaultHeight[baseFonts[index]] = baseFontsSpans[index].offsetHeight // height for the default font
+      }
 
-    // check available fonts
-    return fontList.filter((font) => isFontAvailable(fontsSpans[font]))
-  })
+      // check available fonts
+      return fontList.filter((font) => isFontAvailable(fontsSpans[font]))
+    },
+    undefined,
+    undefined,
+    signal,
+  )
 }
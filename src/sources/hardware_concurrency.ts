@@ -1,6 +1,8 @@
-import { replaceNaN, toInt } from '../utils/data'
-
+/**
+ * The function is self-contained (uses nothing from the outer scope) to be able to run in a worker
+ */
 export default function getHardwareConcurrency(): number | undefined {
   // sometimes hardware concurrency is a string
-  return replaceNaN(toInt(navigator.hardwareConcurrency), undefined)
+  const hardwareConcurrency = parseInt(navigator.hardwareConcurrency as unknown as string)
+  return isNaN(hardwareConcurrency) ? undefined : hardwareConcurrency
 }
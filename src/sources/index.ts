@@ -1,4 +1,13 @@
-import { loadSources, SourcesToComponents } from '../utils/entropy_source'
+import {
+  ComponentListener,
+  loadSources,
+  SourceHooks,
+  SourcesToComponents,
+  UnknownSources,
+} from '../utils/entropy_source'
+import { excludes } from '../utils/data'
+import { runInWorker, SelfContainedFunction } from '../utils/worker'
+import { TaskScheduling } from '../utils/scheduler'
 import getAudioFingerprint from './audio'
 import getFonts from './fonts'
 import getPlugins from './plugins'
@@ -60,8 +69,8 @@ export const sources = {
   // See https://github.com/fingerprintjs/fingerprintjs/blob/master/contributing.md#how-to-add-an-entropy-source
   // to learn how entropy source works and how to make your own.
 
-  // The sources run in this exact order.
-  // The asynchronous sources are at the start to run in parallel with other sources.
+  // The order of running the sources is defined by `sourceScheduling` below.
+  // The components are listed in this order.
   fonts: getFonts,
   domBlockers: getDomBlockers,
   fontPreferences: getFontPreferences,
@@ -103,11 +112,9 @@ export const sources = {
   audioBaseLatency: getAudioContextBaseLatency,
   dateTimeLocale: getDateTimeLocale,
 
-  // Some sources can affect other sources (e.g. WebGL can affect canvas), so it's important to run these sources
-  // after other sources.
   webGlBasics: getWebGlBasics,
   webGlExtensions: getWebGlExtensions,
-  
+
   // Enhanced fingerprinting sources for better device identification
   telegramWebApp: getTelegramWebAppFingerprint,
   behavioral: getBehavioralFingerprintSync,
@@ -116,6 +123,93 @@ export const sources = {
   haptic: getHapticFingerprintSync,
 }
 
+/**
+ * How to schedule the sources (see `TaskScheduling`). The sources that aren't listed are scheduled with the defaults:
+ * they are considered touching the DOM and cheap, and they run in the order of the `sources` object.
+ *
+ * This value isn't restricted by Semantic Versioning, i.e. it may be changed without bumping minor or major version of
+ * this package.
+ */
+export const sourceScheduling: Readonly<Partial<Record<keyof typeof sources, Readonly<TaskScheduling>>>> = {
+  // The asynchronous sources start first to run in parallel with other sources
+  fonts: { priority: 2, cost: 5 },
+  domBlockers: { priority: 2, cost: 2 },
+  fontPreferences: { priority: 2, cost: 5 },
+  audio: { priority: 2, cost: 2, touchesDom: false },
+  screenFrame: { priority: 2 },
+
+  canvas: { priority: 1, cost: 10 },
+  osCpu: { touchesDom: false },
+  languages: { touchesDom: false },
+  colorDepth: { touchesDom: false },
+  deviceMemory: { touchesDom: false },
+  screenResolution: { touchesDom: false },
+  hardwareConcurrency: { touchesDom: false },
+  timezone: { touchesDom: false },
+  sessionStorage: { touchesDom: false },
+  localStorage: { touchesDom: false },
+  indexedDB: { touchesDom: false },
+  openDatabase: { touchesDom: false },
+  cpuClass: { touchesDom: false },
+  platform: { touchesDom: false },
+  plugins: { touchesDom: false },
+  vendor: { touchesDom: false },
+  vendorFlavors: { touchesDom: false },
+  colorGamut: { touchesDom: false },
+  invertedColors: { touchesDom: false },
+  forcedColors: { touchesDom: false },
+  monochrome: { touchesDom: false },
+  contrast: { touchesDom: false },
+  reducedMotion: { touchesDom: false },
+  reducedTransparency: { touchesDom: false },
+  hdr: { touchesDom: false },
+  math: { cost: 1, touchesDom: false },
+  pdfViewerEnabled: { touchesDom: false },
+  architecture: { touchesDom: false },
+  applePay: { touchesDom: false },
+  audioBaseLatency: { cost: 1, touchesDom: false },
+  dateTimeLocale: { touchesDom: false },
+
+  // WebGL can affect canvas, so these sources run after canvas
+  webGlBasics: { after: ['canvas'], cost: 10 },
+  webGlExtensions: { after: ['canvas', 'webGlBasics'], cost: 10 },
+}
+
+/**
+ * The sources that can run in a worker (the `worker` option of `load()`).
+ * These sources must be self-contained synchronous functions without arguments,
+ * and they must produce the same values in a worker as in the main thread.
+ * The canvas and WebGL sources aren't here because an `OffscreenCanvas` may give different values,
+ * and `languages` isn't here because it uses the browser detection functions of the main bundle.
+ */
+export const workerSources: ReadonlyArray<keyof typeof sources> = [
+  'math',
+  'hardwareConcurrency',
+  'timezone',
+  'dateTimeLocale',
+]
+
+/**
+ * Defines which components make each of the visitor identifiers in `GetResult.visitorIds`.
+ * The keys are the tier names, the values are the keys of the components that make the tier identifier.
+ * `'all'` means all the components.
+ */
+export type VisitorIdTiers = Record<string, readonly string[] | 'all'>
+
+/**
+ * The built-in visitor identifier tiers.
+ *
+ * This value isn't restricted by Semantic Versioning, i.e. it may be changed without bumping minor or major version of
+ * this package.
+ */
+export const visitorIdTiers: Readonly<VisitorIdTiers> = {
+  // Hardware-ish components that rarely change during the life of a device
+  core: ['platform', 'hardwareConcurrency', 'screenResolution', 'math', 'webGlBasics', 'architecture'] as ReadonlyArray<
+    keyof typeof sources
+  >,
+  full: 'all',
+}
+
 /**
  * List of components from the built-in entropy sources.
  *
@@ -126,15 +220,129 @@ export const sources = {
  */
 export type BuiltinComponents = SourcesToComponents<typeof sources>
 
+/**
+ * Collects the components of the loaded built-in entropy sources
+ */
+export type BuiltinComponentsGetter = (
+  budget?: number,
+  signal?: AbortSignal,
+  onComponent?: ComponentListener,
+) => Promise<BuiltinComponents>
+
 export interface BuiltinSourceOptions {
   debug?: boolean
   cache: Record<string, unknown>
+  /** Aborts the asynchronous sources and releases their resources (DOM nodes, audio contexts, etc) */
+  signal?: AbortSignal
+}
+
+/**
+ * Defines which entropy sources run in addition to or instead of the built-in ones
+ */
+export interface SourceSelection {
+  /**
+   * Keys of the sources that must not run
+   */
+  excludeSources?: readonly string[]
+  /**
+   * When set, only the sources with these keys run
+   */
+  includeOnly?: readonly string[]
+  /**
+   * Additional sources. A custom source overrides a built-in source with the same key.
+   */
+  customSources?: Readonly<UnknownSources<BuiltinSourceOptions>>
+}
+
+/**
+ * How to run the built-in entropy sources. The same fields of the `load()` options are used.
+ */
+export interface BuiltinSourcesSettings extends SourceSelection, SourceHooks {
+  /** The time limits (milliseconds) of the sources by the source keys */
+  timeouts?: Readonly<Partial<Record<string, number>>>
+  /** Whether to run the self-contained sources in an inline worker */
+  worker?: boolean
 }
 
 /**
  * Loads the built-in entropy sources.
  * Returns a function that collects the entropy components to make the visitor identifier.
  */
-export default function loadBuiltinSources(options: BuiltinSourceOptions): () => Promise<BuiltinComponents> {
-  return loadSources(sources, options, [])
+export default function loadBuiltinSources(
+  options: BuiltinSourceOptions,
+  settings: Readonly<BuiltinSourcesSettings> = {},
+): BuiltinComponentsGetter {
+  const { excludeSources = [], includeOnly, customSources, timeouts, worker } = settings
+  const { onSourceStart, onSourceComplete, onSourceError } = settings
+  let allSources: UnknownSources<BuiltinSourceOptions> = { ...sources, ...customSources }
+  const excludedSources = includeOnly
+    ? [...excludeSources, ...Object.keys(allSources).filter((sourceKey) => excludes(includeOnly, sourceKey))]
+    : excludeSources
+
+  if (worker) {
+    allSources = moveSourcesToWorker(allSources, excludedSources, options.signal)
+  }
+
+  // The components type can't be calculated statically when the selection is defined at runtime
+  return loadSources(
+    allSources,
+    options,
+    excludedSources,
+    undefined,
+    timeouts,
+    options.signal,
+    { onSourceStart, onSourceComplete, onSourceError },
+    getBuiltinScheduling(customSources),
+  ) as BuiltinComponentsGetter
+}
+
+/**
+ * The custom sources that override the built-in sources are scheduled with the defaults
+ */
+function getBuiltinScheduling(customSources: SourceSelection['customSources']): Record<string, TaskScheduling> {
+  const scheduling: Record<string, TaskScheduling> = { ...sourceScheduling }
+  for (const sourceKey of Object.keys(customSources || {})) {
+    delete scheduling[sourceKey]
+  }
+  return scheduling
+}
+
+/**
+ * Replaces the worker-compatible sources with sources that get the components from an inline worker.
+ * If the worker can't run, the original sources run in the main thread.
+ */
+function moveSourcesToWorker(
+  allSources: UnknownSources<BuiltinSourceOptions>,
+  excludedSources: readonly string[],
+  signal: AbortSignal | undefined,
+): UnknownSources<BuiltinSourceOptions> {
+  const workerFunctions: Record<string, SelfContainedFunction> = {}
+  for (const sourceKey of workerSources) {
+    // A custom source can override a built-in one
+    if (allSources[sourceKey] === sources[sourceKey] && excludes(excludedSources, sourceKey)) {
+      workerFunctions[sourceKey] = sources[sourceKey] as SelfContainedFunction
+    }
+  }
+
+  const workerKeys = Object.keys(workerFunctions)
+  if (!workerKeys.length) {
+    return allSources
+  }
+
+  const workerComponentsPromise = runInWorker(workerFunctions, undefined, signal)
+  const newSources = { ...allSources }
+  for (const sourceKey of workerKeys) {
+    newSources[sourceKey] = () => async () => {
+      const workerComponents = await workerComponentsPromise
+      if (!workerComponents) {
+        return workerFunctions[sourceKey]()
+      }
+      const component = workerComponents[sourceKey]
+      if ('error' in component) {
+        throw component.error
+      }
+      return component.value
+    }
+  }
+  return newSources
 }
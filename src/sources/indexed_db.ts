@@ -1,15 +1,23 @@
 import { isEdgeHTML, isTrident } from '../utils/browser'
 
+/**
+ * Gets the indexedDB object.
+ * Returns `false` when the database exists but is blocked and `undefined` when it doesn't exist.
+ */
+export function getIndexedDBObject(): IDBFactory | false | undefined {
+  try {
+    return window.indexedDB || undefined
+  } catch (e) {
+    /* SecurityError when referencing it means it exists */
+    return false
+  }
+}
+
 export default function getIndexedDB(): boolean | undefined {
   // IE and Edge don't allow accessing indexedDB in private mode, therefore IE and Edge will have different
   // visitor identifier in normal and private modes.
   if (isTrident() || isEdgeHTML()) {
     return undefined
   }
-  try {
-    return !!window.indexedDB
-  } catch (e) {
-    /* SecurityError when referencing it means it exists */
-    return true
-  }
+  return getIndexedDBObject() !== undefined
 }
@@ -1,9 +1,17 @@
-// https://bugzilla.mozilla.org/show_bug.cgi?id=781447
-export default function getLocalStorage(): boolean {
+/**
+ * Gets the localStorage object.
+ * Returns `false` when the storage exists but is blocked and `undefined` when it doesn't exist.
+ */
+export function getLocalStorageObject(): Storage | false | undefined {
   try {
-    return !!window.localStorage
+    return window.localStorage || undefined
   } catch (e) {
     /* SecurityError when referencing it means it exists */
-    return true
+    return false
   }
 }
+
+// https://bugzilla.mozilla.org/show_bug.cgi?id=781447
+export default function getLocalStorage(): boolean {
+  return getLocalStorageObject() !== undefined
+}
@@ -1,11 +1,13 @@
-const M = Math // To reduce the minified code size
-const fallbackFn = () => 0
-
 /**
+ * The function is self-contained (uses nothing from the outer scope) to be able to run in a worker.
+ *
  * @see https://gitlab.torproject.org/legacy/trac/-/issues/13018
  * @see https://bugzilla.mozilla.org/show_bug.cgi?id=531915
  */
 export default function getMathFingerprint(): Record<string, number> {
+  const M = Math // To reduce the minified code size
+  const fallbackFn = () => 0
+
   // Native operations
   const acos = M.acos || fallbackFn
   const acosh = M.acosh || fallbackFn
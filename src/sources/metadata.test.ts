@@ -0,0 +1,38 @@
+import { sources } from './index'
+import { sourceEntropy } from './entropy'
+import { sourceMetadata } from './metadata'
+import { sourceWeights } from './weights'
+
+describe('Sources', () => {
+  describe('metadata', () => {
+    it('describes every built-in source', () => {
+      expect(Object.keys(sourceMetadata).sort()).toEqual(Object.keys(sources).sort())
+      for (const key of Object.keys(sourceMetadata) as Array<keyof typeof sourceMetadata>) {
+        const { monthlyChurn, weight, entropy, volatileFields } = sourceMetadata[key]
+        expect(monthlyChurn).withContext(key).toBeGreaterThanOrEqual(0)
+        expect(monthlyChurn).withContext(key).toBeLessThanOrEqual(1)
+        expect(weight).withContext(key).toBeGreaterThan(0)
+        expect(entropy).withContext(key).toBeGreaterThanOrEqual(0)
+        expect(volatileFields?.length ?? 1)
+          .withContext(key)
+          .toBeGreaterThan(0)
+      }
+    })
+
+    it('tells volatile sources from durable ones', () => {
+      const volatileSources = Object.keys(sourceMetadata).filter(
+        (key) => sourceMetadata[key as keyof typeof sourceMetadata].stability === 'volatile',
+      )
+      expect(volatileSources.sort()).toEqual(['behavioral', 'network', 'reducedMotion', 'screenFrame'])
+      expect(sourceMetadata.network.volatileFields).toContain('connectionInfo.downlink')
+      expect(sourceMetadata.hardwareConcurrency.stability).toBe('durable')
+    })
+
+    it('makes the weights and the entropy tables', () => {
+      expect(sourceWeights.canvas).toBe(sourceMetadata.canvas.weight)
+      expect(sourceEntropy.fonts).toBe(sourceMetadata.fonts.entropy)
+      expect(Object.keys(sourceWeights)).toEqual(Object.keys(sourceMetadata))
+      expect(Object.keys(sourceEntropy)).toEqual(Object.keys(sourceMetadata))
+    })
+  })
+})
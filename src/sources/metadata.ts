@@ -0,0 +1,363 @@
+import { sources } from './index'
+
+/**
+ * - `durable` Depends on the hardware or the OS installation, changes very rarely
+ * - `stable` Changes with browser and OS updates or settings, usually not more often than once in months
+ * - `volatile` May change between page loads, e.g. depends on the window state, the network or the user actions
+ */
+export type StabilityClass = 'durable' | 'stable' | 'volatile'
+
+/**
+ * - `low` Tells only about the device and the browser
+ * - `medium` Tells about the installed software or the accessibility needs
+ * - `high` Tells about the person: the location, the language, the behavior or the messenger account
+ */
+export type PrivacySensitivity = 'low' | 'medium' | 'high'
+
+export interface SourceMetadata {
+  stability: StabilityClass
+  /**
+   * The approximate share of the browsers where the component changes within a month, from 0 to 1
+   */
+  monthlyChurn: number
+  privacy: PrivacySensitivity
+  /**
+   * Whether the user can change the component by changing the browser or OS settings
+   */
+  userChangeable: boolean
+  /**
+   * How much a match of the component tells that two component lists belong to the same visitor.
+   * The number grows with the component entropy and falls with the chance of the component to change over time.
+   * The numbers are relative, the absolute scale means nothing.
+   */
+  weight: number
+  /**
+   * The effective entropy (bits) of the component, i.e. how much it adds to the other components rather than the
+   * standalone entropy: the components correlate (e.g. the WebGL parameters and the canvas images both depend on the
+   * GPU), so the numbers are smaller than the ones measured by the studies like AmIUnique and Panopticlick
+   */
+  entropy: number
+  /**
+   * The paths of the value fields that change much more often than the rest of the value (e.g. the network speed)
+   */
+  volatileFields?: readonly string[]
+}
+
+/**
+ * What the built-in components are like. Made for matching visitors (e.g. to give less trust to volatile components)
+ * and for consent interfaces (e.g. to exclude privacy-sensitive sources).
+ * The numbers are approximate and may be refined in minor versions of this package.
+ *
+ * It's the only table of the built-in sources, the weights and the entropy tables are made from it.
+ */
+export const sourceMetadata: Readonly<Record<keyof typeof sources, Readonly<SourceMetadata>>> = {
+  // Installing software often adds fonts
+  fonts: { stability: 'stable', monthlyChurn: 0.05, privacy: 'medium', userChangeable: true, weight: 6, entropy: 3.5 },
+  // Depends on the installed ad blockers
+  domBlockers: {
+    stability: 'stable',
+    monthlyChurn: 0.1,
+    privacy: 'medium',
+    userChangeable: true,
+    weight: 2,
+    entropy: 0.3,
+  },
+  fontPreferences: {
+    stability: 'stable',
+    monthlyChurn: 0.05,
+    privacy: 'low',
+    userChangeable: true,
+    weight: 5,
+    entropy: 1.5,
+  },
+  audio: { stability: 'stable', monthlyChurn: 0.05, privacy: 'low', userChangeable: false, weight: 4, entropy: 1.5 },
+  // Changes when the OS panels change or the browser goes fullscreen
+  screenFrame: {
+    stability: 'volatile',
+    monthlyChurn: 0.5,
+    privacy: 'low',
+    userChangeable: true,
+    weight: 1,
+    entropy: 0.5,
+  },
+  canvas: { stability: 'stable', monthlyChurn: 0.1, privacy: 'low', userChangeable: false, weight: 6, entropy: 4 },
+  osCpu: { stability: 'durable', monthlyChurn: 0.02, privacy: 'low', userChangeable: false, weight: 2, entropy: 0.3 },
+  languages: { stability: 'stable', monthlyChurn: 0.05, privacy: 'high', userChangeable: true, weight: 3, entropy: 1 },
+  colorDepth: {
+    stability: 'durable',
+    monthlyChurn: 0.02,
+    privacy: 'low',
+    userChangeable: false,
+    weight: 1,
+    entropy: 0.2,
+  },
+  deviceMemory: {
+    stability: 'durable',
+    monthlyChurn: 0.01,
+    privacy: 'low',
+    userChangeable: false,
+    weight: 1.5,
+    entropy: 0.5,
+  },
+  // Changes with the display settings and when the window moves to another display
+  screenResolution: {
+    stability: 'stable',
+    monthlyChurn: 0.1,
+    privacy: 'low',
+    userChangeable: true,
+    weight: 4,
+    entropy: 2,
+  },
+  hardwareConcurrency: {
+    stability: 'durable',
+    monthlyChurn: 0.01,
+    privacy: 'low',
+    userChangeable: false,
+    weight: 2,
+    entropy: 0.8,
+  },
+  // Changes when the user travels
+  timezone: { stability: 'stable', monthlyChurn: 0.05, privacy: 'high', userChangeable: true, weight: 3, entropy: 1.5 },
+  // Almost all browsers have the storages
+  sessionStorage: {
+    stability: 'stable',
+    monthlyChurn: 0.01,
+    privacy: 'low',
+    userChangeable: true,
+    weight: 0.2,
+    entropy: 0,
+  },
+  localStorage: {
+    stability: 'stable',
+    monthlyChurn: 0.01,
+    privacy: 'low',
+    userChangeable: true,
+    weight: 0.2,
+    entropy: 0,
+  },
+  indexedDB: { stability: 'stable', monthlyChurn: 0.01, privacy: 'low', userChangeable: true, weight: 0.3, entropy: 0 },
+  openDatabase: {
+    stability: 'stable',
+    monthlyChurn: 0.01,
+    privacy: 'low',
+    userChangeable: false,
+    weight: 0.5,
+    entropy: 0.05,
+  },
+  cpuClass: { stability: 'durable', monthlyChurn: 0, privacy: 'low', userChangeable: false, weight: 0.5, entropy: 0 },
+  platform: {
+    stability: 'durable',
+    monthlyChurn: 0.01,
+    privacy: 'low',
+    userChangeable: false,
+    weight: 2,
+    entropy: 0.5,
+  },
+  plugins: { stability: 'stable', monthlyChurn: 0.05, privacy: 'low', userChangeable: true, weight: 3, entropy: 0.8 },
+  touchSupport: {
+    stability: 'durable',
+    monthlyChurn: 0.02,
+    privacy: 'low',
+    userChangeable: false,
+    weight: 1.5,
+    entropy: 0.3,
+  },
+  vendor: { stability: 'durable', monthlyChurn: 0, privacy: 'low', userChangeable: false, weight: 1, entropy: 0.1 },
+  vendorFlavors: {
+    stability: 'stable',
+    monthlyChurn: 0.02,
+    privacy: 'low',
+    userChangeable: false,
+    weight: 1,
+    entropy: 0.2,
+  },
+  cookiesEnabled: {
+    stability: 'stable',
+    monthlyChurn: 0.01,
+    privacy: 'low',
+    userChangeable: true,
+    weight: 0.2,
+    entropy: 0,
+  },
+  colorGamut: {
+    stability: 'durable',
+    monthlyChurn: 0.02,
+    privacy: 'low',
+    userChangeable: false,
+    weight: 1,
+    entropy: 0.2,
+  },
+  // The accessibility settings may tell about the user health
+  invertedColors: {
+    stability: 'stable',
+    monthlyChurn: 0.02,
+    privacy: 'medium',
+    userChangeable: true,
+    weight: 0.3,
+    entropy: 0,
+  },
+  forcedColors: {
+    stability: 'stable',
+    monthlyChurn: 0.02,
+    privacy: 'medium',
+    userChangeable: true,
+    weight: 0.3,
+    entropy: 0,
+  },
+  monochrome: {
+    stability: 'stable',
+    monthlyChurn: 0.02,
+    privacy: 'medium',
+    userChangeable: true,
+    weight: 0.3,
+    entropy: 0,
+  },
+  contrast: {
+    stability: 'stable',
+    monthlyChurn: 0.02,
+    privacy: 'medium',
+    userChangeable: true,
+    weight: 0.3,
+    entropy: 0.05,
+  },
+  // Some devices turn it on in the battery saving mode
+  reducedMotion: {
+    stability: 'volatile',
+    monthlyChurn: 0.2,
+    privacy: 'medium',
+    userChangeable: true,
+    weight: 0.5,
+    entropy: 0.2,
+  },
+  reducedTransparency: {
+    stability: 'stable',
+    monthlyChurn: 0.02,
+    privacy: 'medium',
+    userChangeable: true,
+    weight: 0.3,
+    entropy: 0,
+  },
+  hdr: { stability: 'stable', monthlyChurn: 0.05, privacy: 'low', userChangeable: true, weight: 0.8, entropy: 0.2 },
+  math: { stability: 'durable', monthlyChurn: 0.02, privacy: 'low', userChangeable: false, weight: 3, entropy: 0.5 },
+  pdfViewerEnabled: {
+    stability: 'stable',
+    monthlyChurn: 0.02,
+    privacy: 'low',
+    userChangeable: true,
+    weight: 0.5,
+    entropy: 0.1,
+  },
+  architecture: {
+    stability: 'durable',
+    monthlyChurn: 0,
+    privacy: 'low',
+    userChangeable: false,
+    weight: 1,
+    entropy: 0.1,
+  },
+  applePay: {
+    stability: 'stable',
+    monthlyChurn: 0.05,
+    privacy: 'low',
+    userChangeable: true,
+    weight: 0.5,
+    entropy: 0.1,
+  },
+  privateClickMeasurement: {
+    stability: 'stable',
+    monthlyChurn: 0.05,
+    privacy: 'low',
+    userChangeable: true,
+    weight: 0.5,
+    entropy: 0.05,
+  },
+  // Depends on the audio output device
+  audioBaseLatency: {
+    stability: 'stable',
+    monthlyChurn: 0.2,
+    privacy: 'low',
+    userChangeable: true,
+    weight: 1.5,
+    entropy: 0.5,
+  },
+  dateTimeLocale: {
+    stability: 'stable',
+    monthlyChurn: 0.05,
+    privacy: 'medium',
+    userChangeable: true,
+    weight: 2,
+    entropy: 0.5,
+  },
+  // Browser updates often change the WebGL parameters and extensions
+  webGlBasics: { stability: 'stable', monthlyChurn: 0.1, privacy: 'low', userChangeable: false, weight: 4, entropy: 2 },
+  webGlExtensions: {
+    stability: 'stable',
+    monthlyChurn: 0.2,
+    privacy: 'low',
+    userChangeable: false,
+    weight: 3,
+    entropy: 1.5,
+  },
+  // Changes when the Telegram client is updated. The launch data is reported apart from the components.
+  telegramWebApp: {
+    stability: 'stable',
+    monthlyChurn: 0.2,
+    privacy: 'low',
+    userChangeable: false,
+    weight: 1,
+    entropy: 0.2,
+  },
+  // Depends on the user actions during the fingerprinting, so it doesn't identify the browser
+  behavioral: {
+    stability: 'volatile',
+    monthlyChurn: 1,
+    privacy: 'high',
+    userChangeable: false,
+    weight: 0.1,
+    entropy: 0,
+  },
+  webView: { stability: 'stable', monthlyChurn: 0.05, privacy: 'low', userChangeable: false, weight: 1, entropy: 0.1 },
+  // Depends on the current network, and the region is derived from the time settings
+  network: {
+    stability: 'volatile',
+    monthlyChurn: 1,
+    privacy: 'high',
+    userChangeable: true,
+    weight: 0.5,
+    entropy: 0.1,
+    volatileFields: [
+      'connectionInfo.connectionType',
+      'connectionInfo.downlink',
+      'connectionInfo.effectiveType',
+      'connectionInfo.rtt',
+      'connectionInfo.saveData',
+      'connectionInfo.onlineStatus',
+      'timingSignature',
+      'ipBasedEntropy.clockSkew',
+      'ipBasedEntropy.timeAccuracy',
+      'networkPerformance',
+    ],
+  },
+  haptic: {
+    stability: 'stable',
+    monthlyChurn: 0.05,
+    privacy: 'low',
+    userChangeable: true,
+    weight: 0.5,
+    entropy: 0.1,
+    volatileFields: ['hapticResponseTiming', 'vibrationSupport.timingAccuracy'],
+  },
+}
+
+/**
+ * Makes a table of one field of the source metadata
+ */
+export function pickSourceMetadata<TField extends keyof SourceMetadata>(
+  field: TField,
+): Record<keyof typeof sources, SourceMetadata[TField]> {
+  const table = {} as Record<keyof typeof sources, SourceMetadata[TField]>
+  for (const key of Object.keys(sourceMetadata) as Array<keyof typeof sources>) {
+    table[key] = sourceMetadata[key][field]
+  }
+  return table
+}
@@ -1,5 +1,6 @@
 import { replaceNaN, round, toFloat } from '../utils/data'
 import { exitFullscreen, getFullscreenElement, isSafariWebKit, isWebKit, isWebKit616OrNewer } from '../utils/browser'
+import { throwIfAborted } from '../utils/async'
 
 /**
  * The order matches the CSS side order: top, right, bottom, left.
@@ -8,6 +9,10 @@ import { exitFullscreen, getFullscreenElement, isSafariWebKit, isWebKit, isWebKi
  */
 export type FrameSize = [number | null, number | null, number | null, number | null]
 
+type Options = {
+  signal?: AbortSignal
+}
+
 export const screenFrameCheckInterval = 2500
 const roundingPrecision = 10
 
@@ -51,11 +56,12 @@ export function resetScreenFrameWatch(): void {
 
 /**
  * A version of the entropy source without stabilization.
+ * When the signal aborts, the fullscreen mode isn't exited anymore.
  *
  * Warning for package users:
  * This function is out of Semantic Versioning, i.e. can change unexpectedly. Usage is at your own risk.
  */
-export function getUnstableScreenFrame(): () => Promise<FrameSize> {
+export function getUnstableScreenFrame(signal?: AbortSignal): () => Promise<FrameSize> {
   watchScreenFrame()
 
   return async () => {
@@ -70,6 +76,7 @@ export function getUnstableScreenFrame(): () => Promise<FrameSize> {
         // Some browsers set the screen frame to zero when programmatic fullscreen is on.
         // There is a chance of getting a non-zero frame after exiting the fullscreen.
         // See more on this at https://github.com/fingerprintjs/fingerprintjs/issues/568
+        throwIfAborted(signal)
         await exitFullscreen()
         frameSize = getCurrentScreenFrame()
       }
@@ -91,12 +98,12 @@ export function getUnstableScreenFrame(): () => Promise<FrameSize> {
  *
  * The frame width is always 0 in private mode of Safari 17, so the frame is not used in Safari 17.
  */
-export default function getScreenFrame(): () => Promise<FrameSize | undefined> {
+export default function getScreenFrame({ signal }: Options = {}): () => Promise<FrameSize | undefined> {
   if (isWebKit() && isWebKit616OrNewer() && isSafariWebKit()) {
     return () => Promise.resolve(undefined)
   }
 
-  const screenFrameGetter = getUnstableScreenFrame()
+  const screenFrameGetter = getUnstableScreenFrame(signal)
 
   return async () => {
     const frameSize = await screenFrameGetter()
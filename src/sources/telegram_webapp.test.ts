@@ -0,0 +1,228 @@
+import { withMockProperties } from '../../tests/utils'
+import { hashComponents } from '../components'
+import { checkValue, getSourceSchemas } from '../schema'
+import getTelegramWebAppFingerprint, { getTelegramWebAppContext } from './telegram_webapp'
+
+/**
+ * A `window.Telegram.WebApp` object recorded in a Telegram client.
+ * The functions are recorded by their names.
+ */
+interface WebAppSnapshot {
+  properties: Record<string, unknown>
+  methods: string[]
+}
+
+const commonMethods = [
+  'close',
+  'closeScanQrPopup',
+  'disableClosingConfirmation',
+  'enableClosingConfirmation',
+  'expand',
+  'isVersionAtLeast',
+  'offEvent',
+  'onEvent',
+  'openInvoice',
+  'openLink',
+  'openTelegramLink',
+  'readTextFromClipboard',
+  'ready',
+  'requestContact',
+  'requestWriteAccess',
+  'sendData',
+  'setBackgroundColor',
+  'setHeaderColor',
+  'showAlert',
+  'showConfirm',
+  'showPopup',
+  'showScanQrPopup',
+  'switchInlineQuery',
+]
+
+const lightTheme = {
+  bg_color: '#ffffff',
+  text_color: '#000000',
+  hint_color: '#999999',
+  link_color: '#2481cc',
+  button_color: '#2481cc',
+  button_text_color: '#ffffff',
+}
+
+const darkTheme = {
+  bg_color: '#000000',
+  text_color: '#ffffff',
+  hint_color: '#98989e',
+  link_color: '#3e88f7',
+  button_color: '#3e88f7',
+  button_text_color: '#ffffff',
+}
+
+// The launches of the same Mini App by the same user on an iPhone: the second one is in the dark theme, expanded
+const iosLaunch1: WebAppSnapshot = {
+  properties: {
+    initData:
+      'query_id=AAHdF6IQAAAAAN0XohDhrOrc&user=%7B%22id%22%3A123456789%2C%22first_name%22%3A%22Test%22%7D' +
+      '&auth_date=1760512392&hash=c501b71e775f74ce10e377dea85a7ea24ecd640b223ea86dfe453e0eaed2e2b2',
+    initDataUnsafe: {
+      query_id: 'AAHdF6IQAAAAAN0XohDhrOrc',
+      user: { id: 123456789, first_name: 'Test' },
+      auth_date: '1760512392',
+      hash: 'c501b71e775f74ce10e377dea85a7ea24ecd640b223ea86dfe453e0eaed2e2b2',
+    },
+    version: '8.0',
+    platform: 'ios',
+    colorScheme: 'light',
+    themeParams: lightTheme,
+    isExpanded: false,
+    viewportHeight: 542,
+    viewportStableHeight: 542,
+    headerColor: '#efeff3',
+    backgroundColor: '#ffffff',
+    isClosingConfirmationEnabled: false,
+    CloudStorage: {},
+    HapticFeedback: {},
+    MainButton: {},
+    BackButton: {},
+    SettingsButton: {},
+  },
+  methods: [...commonMethods, 'exitFullscreen', 'lockOrientation', 'requestFullscreen', 'shareToStory'],
+}
+
+const iosLaunch2: WebAppSnapshot = {
+  properties: {
+    ...iosLaunch1.properties,
+    initData:
+      'query_id=AAHdF6IQAAAAAN0XohBnCDGq&user=%7B%22id%22%3A123456789%2C%22first_name%22%3A%22Test%22%7D' +
+      '&auth_date=1760598817&hash=8d5a0ae3a1ac4bcdca3e8b14f81f9edb8c5fb3e36afad4e27e2ee53e4a7e31d3',
+    initDataUnsafe: {
+      query_id: 'AAHdF6IQAAAAAN0XohBnCDGq',
+      user: { id: 123456789, first_name: 'Test' },
+      auth_date: '1760598817',
+      hash: '8d5a0ae3a1ac4bcdca3e8b14f81f9edb8c5fb3e36afad4e27e2ee53e4a7e31d3',
+    },
+    colorScheme: 'dark',
+    themeParams: darkTheme,
+    isExpanded: true,
+    viewportHeight: 759,
+    viewportStableHeight: 759,
+    headerColor: '#1c1c1d',
+    backgroundColor: '#000000',
+  },
+  methods: iosLaunch1.methods,
+}
+
+// An older client on Android, opened from an inline button (so without `query_id`)
+const androidLaunch: WebAppSnapshot = {
+  properties: {
+    initData:
+      'user=%7B%22id%22%3A123456789%2C%22first_name%22%3A%22Test%22%7D&chat_instance=-3788475317572404878' +
+      '&chat_type=private&auth_date=1760601123&hash=0b7bc3e2f2cb4f3e2c6a4e9d0e1f4f8a6c3a5b2d1e0f9a8b7c6d5e4f3a2b1c0d',
+    initDataUnsafe: {
+      user: { id: 123456789, first_name: 'Test' },
+      chat_instance: '-3788475317572404878',
+      chat_type: 'private',
+      auth_date: '1760601123',
+      hash: '0b7bc3e2f2cb4f3e2c6a4e9d0e1f4f8a6c3a5b2d1e0f9a8b7c6d5e4f3a2b1c0d',
+    },
+    version: '7.10',
+    platform: 'android',
+    colorScheme: 'light',
+    themeParams: lightTheme,
+    isExpanded: true,
+    viewportHeight: 684.5,
+    viewportStableHeight: 684.5,
+    headerColor: '#ffffff',
+    backgroundColor: '#ffffff',
+    CloudStorage: {},
+    HapticFeedback: {},
+    MainButton: {},
+    BackButton: {},
+    SettingsButton: {},
+  },
+  methods: [...commonMethods, 'shareToStory'],
+}
+
+function restoreWebApp({ properties, methods }: WebAppSnapshot) {
+  const webApp: Record<string, unknown> = { ...properties }
+  for (const method of methods) {
+    webApp[method] = () => undefined
+  }
+  return webApp
+}
+
+function withWebApp<T>(snapshot: WebAppSnapshot, action: () => T): Promise<T> {
+  return withMockProperties(window, { Telegram: { value: { WebApp: restoreWebApp(snapshot) } } }, action)
+}
+
+describe('Sources', () => {
+  describe('telegramWebApp', () => {
+    it('gives the same component in different launches', async () => {
+      const component1 = await withWebApp(iosLaunch1, getTelegramWebAppFingerprint)
+      const component2 = await withWebApp(iosLaunch2, getTelegramWebAppFingerprint)
+      expect(component2).toEqual(component1)
+      expect(hashComponents({ telegramWebApp: { value: component2, duration: 0 } })).toBe(
+        hashComponents({ telegramWebApp: { value: component1, duration: 0 } }),
+      )
+    })
+
+    it('collects only the identity of the client', async () => {
+      const component = await withWebApp(iosLaunch1, getTelegramWebAppFingerprint)
+      expect(component).toEqual({
+        isTelegramWebView: true,
+        telegramVersion: '8.0',
+        platform: 'ios',
+        bridgeFingerprint: {
+          availableMethods: [...iosLaunch1.methods].sort(),
+          bridgeVersion: '8.0',
+          supportedEvents: [],
+          hasCloudStorage: true,
+          hasHapticFeedback: true,
+          hasMainButton: true,
+          hasBackButton: true,
+          hasSettingsButton: true,
+        },
+      })
+      expect(checkValue(component, getSourceSchemas()?.telegramWebApp ?? {})).toBeUndefined()
+    })
+
+    it('tells the clients apart', async () => {
+      const iosComponent = await withWebApp(iosLaunch1, getTelegramWebAppFingerprint)
+      const androidComponent = await withWebApp(androidLaunch, getTelegramWebAppFingerprint)
+      expect(androidComponent.platform).toBe('android')
+      expect(androidComponent.telegramVersion).toBe('7.10')
+      expect(androidComponent.bridgeFingerprint?.availableMethods).not.toEqual(
+        iosComponent.bridgeFingerprint?.availableMethods,
+      )
+    })
+
+    it('reports the launch context separately', async () => {
+      const context1 = await withWebApp(iosLaunch1, getTelegramWebAppContext)
+      const context2 = await withWebApp(iosLaunch2, getTelegramWebAppContext)
+      expect(context1).toEqual({
+        initData: iosLaunch1.properties.initData as string,
+        initDataUnsafe: iosLaunch1.properties.initDataUnsafe as Record<string, unknown>,
+        colorScheme: 'light',
+        themeParams: lightTheme,
+        isExpanded: false,
+        viewportHeight: 542,
+        viewportStableHeight: 542,
+        headerColor: '#efeff3',
+        backgroundColor: '#ffffff',
+      })
+      expect(context2).toEqual(jasmine.objectContaining({ colorScheme: 'dark', isExpanded: true, viewportHeight: 759 }))
+      expect(context2?.initData).not.toBe(context1?.initData)
+    })
+
+    it('gives nothing outside Telegram', () => {
+      if (/telegram/i.test(navigator.userAgent) || window.Telegram?.WebApp) {
+        pending('The browser is Telegram')
+      }
+      expect(getTelegramWebAppFingerprint()).toEqual({
+        isTelegramWebView: false,
+        telegramVersion: null,
+        platform: null,
+        bridgeFingerprint: null,
+      })
+      expect(getTelegramWebAppContext()).toBeNull()
+    })
+  })
+})
@@ -3,15 +3,21 @@
  * Detects and analyzes Telegram Mini Apps environment
  */
 
+/**
+ * The identity of the Telegram client. Changes only when the client is updated.
+ */
 export interface TelegramWebAppFingerprint {
   isTelegramWebView: boolean
-  webAppData: TelegramWebAppData | null
   telegramVersion: string | null
   platform: string | null
   bridgeFingerprint: TelegramBridgeFingerprint | null
 }
 
-export interface TelegramWebAppData {
+/**
+ * The data of the current Mini App launch. Changes between the launches (the launch data, the viewport) and with the
+ * user settings (the theme), so it isn't a part of the component.
+ */
+export interface TelegramWebAppContext {
   initData: string
   initDataUnsafe: Record<string, any>
   colorScheme: 'light' | 'dark'
@@ -21,8 +27,6 @@ export interface TelegramWebAppData {
   viewportStableHeight: number
   headerColor: string
   backgroundColor: string
-  platform: string
-  version: string
 }
 
 export interface TelegramBridgeFingerprint {
@@ -81,11 +85,11 @@ function extractTelegramVersion(): string | null {
   if (versionMatch) {
     return versionMatch[1]
   }
-  
+
   if (window.Telegram?.WebApp?.version) {
     return window.Telegram.WebApp.version
   }
-  
+
   return null
 }
 
@@ -93,21 +97,24 @@ function extractTelegramPlatform(): string | null {
   if (window.Telegram?.WebApp?.platform) {
     return window.Telegram.WebApp.platform
   }
-  
+
   const ua = navigator.userAgent.toLowerCase()
   if (ua.includes('iphone') || ua.includes('ipad')) return 'ios'
   if (ua.includes('android')) return 'android'
   if (ua.includes('windows')) return 'windows'
   if (ua.includes('macintosh')) return 'macos'
   if (ua.includes('linux')) return 'linux'
-  
+
   return null
 }
 
-function getTelegramWebAppData(): TelegramWebAppData | null {
+/**
+ * Reads the context of the current Mini App launch, returns `null` outside Telegram Mini Apps
+ */
+export function getTelegramWebAppContext(): TelegramWebAppContext | null {
   const webApp = window.Telegram?.WebApp
   if (!webApp) return null
-  
+
   try {
     return {
       initData: webApp.initData || '',
@@ -119,8 +126,6 @@ function getTelegramWebAppData(): TelegramWebAppData | null {
       viewportStableHeight: webApp.viewportStableHeight || 0,
       headerColor: webApp.headerColor || '',
       backgroundColor: webApp.backgroundColor || '',
-      platform: webApp.platform || '',
-      version: webApp.version || ''
     }
   } catch (error) {
     return null
@@ -130,12 +135,12 @@ function getTelegramWebAppData(): TelegramWebAppData | null {
 function getTelegramBridgeFingerprint(): TelegramBridgeFingerprint | null {
   const webApp = window.Telegram?.WebApp
   if (!webApp) return null
-  
+
   try {
     const availableMethods = Object.keys(webApp)
-      .filter(key => typeof webApp[key] === 'function')
+      .filter((key) => typeof webApp[key] === 'function')
       .sort()
-    
+
     return {
       availableMethods,
       bridgeVersion: webApp.version || '',
@@ -144,7 +149,7 @@ function getTelegramBridgeFingerprint(): TelegramBridgeFingerprint | null {
       hasHapticFeedback: !!webApp.HapticFeedback,
       hasMainButton: !!webApp.MainButton,
       hasBackButton: !!webApp.BackButton,
-      hasSettingsButton: !!webApp.SettingsButton
+      hasSettingsButton: !!webApp.SettingsButton,
     }
   } catch (error) {
     return null
@@ -154,7 +159,7 @@ function getTelegramBridgeFingerprint(): TelegramBridgeFingerprint | null {
 function getSupportedTelegramEvents(): string[] {
   const webApp = window.Telegram?.WebApp
   if (!webApp) return []
-  
+
   const commonEvents = [
     'themeChanged',
     'viewportChanged',
@@ -164,10 +169,10 @@ function getSupportedTelegramEvents(): string[] {
     'invoiceClosed',
     'popupClosed',
     'qrTextReceived',
-    'clipboardTextReceived'
+    'clipboardTextReceived',
   ]
-  
-  return commonEvents.filter(event => {
+
+  return commonEvents.filter((event) => {
     try {
       return typeof webApp[`on${event.charAt(0).toUpperCase()}${event.slice(1)}`] === 'function'
     } catch {
@@ -177,26 +182,25 @@ function getSupportedTelegramEvents(): string[] {
 }
 
 /**
- * Main Telegram WebApp fingerprinting function
+ * Main Telegram WebApp fingerprinting function.
+ * Only the client identity is collected, see `getTelegramWebAppContext` for the launch data.
  */
 export default function getTelegramWebAppFingerprint(): TelegramWebAppFingerprint {
   const isTelegramWebView = detectTelegramEnvironment()
-  
+
   if (!isTelegramWebView) {
     return {
       isTelegramWebView: false,
-      webAppData: null,
       telegramVersion: null,
       platform: null,
-      bridgeFingerprint: null
+      bridgeFingerprint: null,
     }
   }
-  
+
   return {
     isTelegramWebView: true,
-    webAppData: getTelegramWebAppData(),
     telegramVersion: extractTelegramVersion(),
     platform: extractTelegramPlatform(),
-    bridgeFingerprint: getTelegramBridgeFingerprint()
+    bridgeFingerprint: getTelegramBridgeFingerprint(),
   }
-}
\ No newline at end of file
+}
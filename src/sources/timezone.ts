@@ -1,7 +1,8 @@
-import { toFloat } from '../utils/data'
-
+/**
+ * The function is self-contained (uses nothing from the outer scope) to be able to run in a worker
+ */
 export default function getTimezone(): string {
-  const DateTimeFormat = window.Intl?.DateTimeFormat
+  const DateTimeFormat = self.Intl?.DateTimeFormat
   if (DateTimeFormat) {
     const timezone = new DateTimeFormat().resolvedOptions().timeZone
     if (timezone) {
@@ -9,21 +10,19 @@ export default function getTimezone(): string {
     }
   }
 
-  // For browsers that don't support timezone names
-  // The minus is intentional because the JS offset is opposite to the real offset
-  const offset = -getTimezoneOffset()
-  return `UTC${offset >= 0 ? '+' : ''}${offset}`
-}
-
-function getTimezoneOffset(): number {
-  const currentYear = new Date().getFullYear()
+  // For browsers that don't support timezone names.
   // The timezone offset may change over time due to daylight saving time (DST) shifts.
   // The non-DST timezone offset is used as the result timezone offset.
   // Since the DST season differs in the northern and the southern hemispheres,
   // both January and July timezones offsets are considered.
-  return Math.max(
+  const currentYear = new Date().getFullYear()
+  const timezoneOffset = Math.max(
     // `getTimezoneOffset` returns a number as a string in some unidentified cases
-    toFloat(new Date(currentYear, 0, 1).getTimezoneOffset()),
-    toFloat(new Date(currentYear, 6, 1).getTimezoneOffset()),
+    parseFloat(new Date(currentYear, 0, 1).getTimezoneOffset() as unknown as string),
+    parseFloat(new Date(currentYear, 6, 1).getTimezoneOffset() as unknown as string),
   )
+
+  // The minus is intentional because the JS offset is opposite to the real offset
+  const offset = -timezoneOffset
+  return `UTC${offset >= 0 ? '+' : ''}${offset}`
 }
@@ -0,0 +1,16 @@
+import { sources } from './index'
+import { pickSourceMetadata } from './metadata'
+
+/**
+ * How much a match of a built-in component tells that two component lists belong to the same visitor.
+ * Made from the `weight` fields of `sourceMetadata`.
+ *
+ * This value isn't restricted by Semantic Versioning, i.e. it may be changed without bumping minor or major version of
+ * this package.
+ */
+export const sourceWeights: Readonly<Record<keyof typeof sources, number>> = pickSourceMetadata('weight')
+
+/**
+ * The weight of a custom component, which has no entry in `sourceMetadata`
+ */
+export const defaultSourceWeight = 1
@@ -0,0 +1,131 @@
+import { BuiltinComponents } from './sources'
+import { UnknownComponents } from './utils/entropy_source'
+import { hashers } from './hashers'
+import { telegramStrategy } from './telegram_strategy'
+import {
+  AdaptiveStrategy,
+  applyStrategy,
+  checkStrategyName,
+  generateStrategyFingerprint,
+  registerStrategy,
+} from './strategies'
+
+describe('Strategies', () => {
+  const makeComponents = (isTelegramWebView: boolean) =>
+    ({
+      platform: { value: 'iPhone', duration: 0 },
+      timezone: { value: 'Europe/London', duration: 0 },
+      telegramWebApp: {
+        value: {
+          isTelegramWebView,
+          telegramVersion: isTelegramWebView ? '7.10' : null,
+          platform: isTelegramWebView ? 'ios' : null,
+          bridgeFingerprint: null,
+        },
+        duration: 0,
+      },
+      webView: {
+        value: { isWebView: isTelegramWebView, webViewType: isTelegramWebView ? 'telegram' : 'none' },
+        duration: 0,
+      },
+      haptic: { value: { isAvailable: isTelegramWebView, isTelegramHaptic: isTelegramWebView }, duration: 0 },
+    } as UnknownComponents as BuiltinComponents)
+
+  it('detects Telegram Mini Apps automatically', () => {
+    expect(applyStrategy(makeComponents(false), 'auto')).toBeUndefined()
+
+    const result = applyStrategy(makeComponents(true), 'auto')
+    expect(result?.name).toBe('telegram')
+    expect(result?.confidence).toEqual({
+      score: 0.9,
+      telegramAdjustment: true,
+      behavioralFactor: 0,
+      webViewFactor: 0.25,
+      hapticFactor: 0.15,
+      networkFactor: 0,
+      stabilityScore: 1,
+    })
+    expect(result?.visitorId).toMatch(/^[0-9a-f]+$/)
+  })
+
+  it('applies the chosen strategy', () => {
+    expect(applyStrategy(makeComponents(true), 'default')).toBeUndefined()
+
+    const result = applyStrategy(makeComponents(false), 'telegram')
+    expect(result?.confidence.telegramAdjustment).toBeFalse()
+    expect(result?.confidence.score).toBe(0.6)
+  })
+
+  it('salts the visitor identifier', () => {
+    const components = makeComponents(true)
+    const visitorId = applyStrategy(components, 'telegram')?.visitorId
+    expect(applyStrategy(components, 'telegram', 'Brand 1')?.visitorId).not.toBe(visitorId)
+    expect(applyStrategy(components, 'telegram', 'Brand 1')?.visitorId).toBe(
+      applyStrategy(components, 'telegram', 'Brand 1')?.visitorId,
+    )
+  })
+
+  it('makes the visitor identifier with the hasher', async () => {
+    const components = makeComponents(true)
+    const murmur3VisitorId = generateStrategyFingerprint(components, 'telegram', hashers.murmur3, 'Brand 1')
+    expect(murmur3VisitorId).toBe(applyStrategy(components, 'telegram', 'Brand 1')?.visitorId as string)
+    const sha256VisitorId = await generateStrategyFingerprint(components, 'telegram', hashers.sha256, 'Brand 1')
+    expect(sha256VisitorId).toMatch(/^[0-9a-f]{64}$/)
+    expect(() => generateStrategyFingerprint(components, 'foo', hashers.murmur3)).toThrowError(TypeError)
+  })
+
+  it('registers custom strategies', () => {
+    const strategy: AdaptiveStrategy = {
+      detectEnvironment: (components) => 'customStrategyTest' in components,
+      getEnhancedConfidenceScore: () => ({
+        score: 0.5,
+        telegramAdjustment: false,
+        behavioralFactor: 0,
+        webViewFactor: 0,
+        hapticFactor: 0,
+        networkFactor: 0,
+        stabilityScore: 1,
+      }),
+      generateFingerprint: (_components, salt) => `custom${salt ?? ''}`,
+    }
+    expect(() => checkStrategyName('customTest')).toThrowError(TypeError, 'Unknown strategy: customTest')
+    registerStrategy('customTest', strategy)
+    expect(() => checkStrategyName('customTest')).not.toThrow()
+
+    const components = { ...makeComponents(false), customStrategyTest: { value: 1, duration: 0 } }
+    expect(applyStrategy(components, 'auto', 'Salt')).toEqual({
+      name: 'customTest',
+      confidence: strategy.getEnhancedConfidenceScore(components),
+      visitorId: 'customSalt',
+    })
+    // The built-in strategies go first
+    expect(applyStrategy({ ...components, ...makeComponents(true) }, 'auto')?.name).toBe('telegram')
+  })
+
+  it('makes the visitor identifier on demand', () => {
+    const generateFingerprint = jasmine.createSpy('generateFingerprint').and.returnValue('lazy')
+    registerStrategy('lazyTest', {
+      detectEnvironment: () => false,
+      getEnhancedConfidenceScore: (components) => telegramStrategy.getEnhancedConfidenceScore(components),
+      generateFingerprint,
+    })
+
+    const result = applyStrategy(makeComponents(false), 'lazyTest')
+    expect(generateFingerprint).not.toHaveBeenCalled()
+    expect(result?.visitorId).toBe('lazy')
+    expect(result?.visitorId).toBe('lazy')
+    expect(generateFingerprint).toHaveBeenCalledTimes(1)
+
+    const hashedResult = applyStrategy(makeComponents(false), 'lazyTest')
+    if (hashedResult) {
+      hashedResult.visitorId = 'hashed'
+    }
+    expect(hashedResult?.visitorId).toBe('hashed')
+    expect(generateFingerprint).toHaveBeenCalledTimes(1)
+  })
+
+  it("doesn't register strategies with reserved names", () => {
+    expect(() => registerStrategy('auto', {} as AdaptiveStrategy)).toThrowError(TypeError)
+    expect(() => registerStrategy('default', {} as AdaptiveStrategy)).toThrowError(TypeError)
+  })
+})
@@ -0,0 +1,139 @@
+import { BuiltinComponents } from './sources'
+import { Hasher } from './hashers'
+import { telegramStrategy } from './telegram_strategy'
+
+/**
+ * The confidence estimated with the signals of a specific environment
+ */
+export interface EnhancedConfidence {
+  /** A number between 0 and 1 */
+  score: number
+  /** Whether the score has been adjusted for Telegram Mini Apps */
+  telegramAdjustment: boolean
+  /** The score increase given by the user interaction patterns (the `behavioral` component) */
+  behavioralFactor: number
+  /** The score increase given by the WebView detection (the `webView` component) */
+  webViewFactor: number
+  /** The score increase given by the haptic feedback (the `haptic` component) */
+  hapticFactor: number
+  /** The score increase given by the network characteristics (the `network` component) */
+  networkFactor: number
+  /** The share of the long-lived components that are present, between 0 and 1 */
+  stabilityScore: number
+}
+
+/**
+ * Adjusts the agent result to a specific environment, for example, Telegram Mini Apps.
+ * The methods are called with the components of every result, including the stored ones,
+ * so they mustn't depend on the current browser state.
+ */
+export interface AdaptiveStrategy {
+  /**
+   * Whether the components have been collected in the environment of the strategy.
+   * The `auto` strategy applies the first registered strategy which environment is detected.
+   */
+  detectEnvironment(components: BuiltinComponents): boolean
+  getEnhancedConfidenceScore(components: BuiltinComponents): EnhancedConfidence
+  /**
+   * Makes a visitor identifier optimized for the environment.
+   * The salt is the `salt` option of `load()`, different salts must give unlinkable identifiers.
+   * The hasher is the `hasher` option of `load()`, it's given only when the option is set.
+   * Without a hasher, the identifier must be made synchronously.
+   */
+  generateFingerprint(components: BuiltinComponents, salt?: string): string
+  generateFingerprint(components: BuiltinComponents, salt: string | undefined, hasher: Hasher): string | Promise<string>
+}
+
+export interface StrategyResult {
+  /** The name of the applied strategy */
+  name: string
+  confidence: EnhancedConfidence
+  /** The visitor identifier optimized for the environment, made by the `hasher` option of `load()` */
+  visitorId: string
+}
+
+/**
+ * The strategy names that don't stand for a registered strategy
+ */
+const specialStrategyNames = ['auto', 'default']
+
+// A map is used instead of an object to keep the registration order and to allow any names (e.g. `constructor`)
+const strategies = new Map<string, AdaptiveStrategy>([['telegram', telegramStrategy]])
+
+/**
+ * Adds a strategy that can be chosen by the `strategy` option of `load()`.
+ * The `auto` strategy tries the registered strategies in the registration order, the built-in ones go first.
+ * Registering a strategy with the name of a registered strategy replaces it.
+ */
+export function registerStrategy(name: string, strategy: AdaptiveStrategy): void {
+  if (specialStrategyNames.indexOf(name) !== -1) {
+    throw new TypeError(`The strategy name "${name}" is reserved`)
+  }
+  strategies.set(name, strategy)
+}
+
+/**
+ * Throws an error if the strategy name is unknown.
+ * Made to check the `load()` options before the agent is made.
+ */
+export function checkStrategyName(name: string): void {
+  if (specialStrategyNames.indexOf(name) === -1 && !strategies.has(name)) {
+    throw new TypeError(`Unknown strategy: ${name}`)
+  }
+}
+
+/**
+ * Makes the visitor identifier of the applied strategy (see `StrategyResult.name`) with the `hasher` option of `load()`
+ */
+export function generateStrategyFingerprint(
+  components: BuiltinComponents,
+  name: string,
+  hasher: Hasher,
+  salt?: string,
+): string | Promise<string> {
+  const strategy = strategies.get(name)
+  if (!strategy) {
+    throw new TypeError(`Unknown strategy: ${name}`)
+  }
+  return strategy.generateFingerprint(components, salt, hasher)
+}
+
+/**
+ * Applies the strategy to the components. The visitor identifier is made when it's read for the first time.
+ * Returns `undefined` when no strategy applies, i.e. with the `default` strategy or when `auto` detects nothing.
+ */
+export function applyStrategy(components: BuiltinComponents, name: string, salt?: string): StrategyResult | undefined {
+  let strategy: AdaptiveStrategy | undefined
+  if (name === 'auto') {
+    for (const [autoName, autoStrategy] of strategies) {
+      if (autoStrategy.detectEnvironment(components)) {
+        name = autoName
+        strategy = autoStrategy
+        break
+      }
+    }
+  } else {
+    strategy = strategies.get(name)
+  }
+
+  if (!strategy) {
+    return undefined
+  }
+  const appliedStrategy = strategy
+  let visitorIdCache: string | undefined
+
+  // The visitor identifier is calculated on demand the same way as the identifiers of `GetResult`
+  return {
+    name,
+    confidence: strategy.getEnhancedConfidenceScore(components),
+    get visitorId(): string {
+      if (visitorIdCache === undefined) {
+        visitorIdCache = appliedStrategy.generateFingerprint(components, salt)
+      }
+      return visitorIdCache
+    },
+    set visitorId(visitorId: string) {
+      visitorIdCache = visitorId
+    },
+  }
+}
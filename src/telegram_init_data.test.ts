@@ -0,0 +1,139 @@
+import { getUTF8Bytes } from './utils/data'
+import { bytesToHex, hmacSha256 } from './utils/sha256'
+import { TelegramInitDataValidation, validateTelegramInitData } from './telegram_init_data'
+
+describe('validateTelegramInitData', () => {
+  const botToken = '7342037359:AAHtestTokenMadeForTheUnitTests0000'
+  const authDate = 1733584787
+  const now = authDate * 1000 + 60000
+  const user = {
+    id: 123456789,
+    first_name: 'Test',
+    last_name: 'User',
+    username: 'test_user',
+    language_code: 'en',
+    is_premium: true,
+    allows_write_to_pm: true,
+  }
+
+  /**
+   * Signs the fields the same way as Telegram does with the bot token
+   */
+  function makeInitData(fields: Record<string, string>, token = botToken): string {
+    const dataCheckString = Object.keys(fields)
+      .sort()
+      .map((key) => `${key}=${fields[key]}`)
+      .join('\n')
+    const secretKey = hmacSha256(getUTF8Bytes('WebAppData'), getUTF8Bytes(token))
+    const hash = bytesToHex(hmacSha256(secretKey, getUTF8Bytes(dataCheckString)))
+    return new URLSearchParams({ ...fields, hash }).toString()
+  }
+
+  const fields = {
+    query_id: 'AAHdF6IQAAAAAN0XohDhrOrc',
+    user: JSON.stringify(user),
+    auth_date: String(authDate),
+    // Telegram adds the third-party signature to all the init data, it takes part in the hash
+    signature: 'c2lnbmF0dXJl',
+  }
+
+  describe('with a bot token', () => {
+    it('accepts valid init data', () => {
+      expect(validateTelegramInitData(makeInitData(fields), botToken, { now })).toEqual({
+        valid: true,
+        data: { query_id: 'AAHdF6IQAAAAAN0XohDhrOrc', user, auth_date: authDate },
+      })
+
+      const chat = { id: -1001234567890, type: 'supergroup', title: 'Test chat' }
+      const chatFields = { ...fields, chat: JSON.stringify(chat), chat_type: 'supergroup', can_send_after: '10' }
+      expect(validateTelegramInitData(makeInitData(chatFields), botToken, { now })).toEqual({
+        valid: true,
+        data: {
+          query_id: 'AAHdF6IQAAAAAN0XohDhrOrc',
+          user,
+          auth_date: authDate,
+          chat,
+          chat_type: 'supergroup',
+          can_send_after: 10,
+        },
+      })
+    })
+
+    it('rejects forged init data', () => {
+      const initData = makeInitData(fields)
+      const forgedInitData = initData.replace('test_user', 'admin')
+      expect(forgedInitData).not.toBe(initData)
+      expect(validateTelegramInitData(forgedInitData, botToken, { now })).toEqual({
+        valid: false,
+        reason: 'signature',
+      })
+      expect(validateTelegramInitData(makeInitData(fields, '1:AnotherToken'), botToken, { now })).toEqual({
+        valid: false,
+        reason: 'signature',
+      })
+    })
+
+    it('rejects expired init data', () => {
+      const initData = makeInitData(fields)
+      const expired: TelegramInitDataValidation = { valid: false, reason: 'expired' }
+      expect(validateTelegramInitData(initData, botToken, { now: now + 86400000 })).toEqual(expired)
+      expect(validateTelegramInitData(initData, botToken, { now, maxAgeSeconds: 30 })).toEqual(expired)
+      expect(validateTelegramInitData(initData, botToken, { now: authDate * 1000 - 3600000 })).toEqual(expired)
+      expect(validateTelegramInitData(initData, botToken, { now: authDate * 1000 - 1000 }).valid).toBeTrue()
+    })
+
+    it('rejects malformed init data', () => {
+      const malformed: TelegramInitDataValidation = { valid: false, reason: 'malformed' }
+      expect(validateTelegramInitData('', botToken, { now })).toEqual(malformed)
+      expect(validateTelegramInitData(`${makeInitData(fields)}&hash=00`, botToken, { now })).toEqual(malformed)
+      expect(validateTelegramInitData(makeInitData({ ...fields, user: '{"id":' }), botToken, { now })).toEqual(
+        malformed,
+      )
+      expect(
+        validateTelegramInitData(makeInitData({ ...fields, user: '{"first_name":"Test"}' }), botToken, { now }),
+      ).toEqual(malformed)
+      expect(validateTelegramInitData(makeInitData({ ...fields, auth_date: 'yesterday' }), botToken, { now })).toEqual(
+        malformed,
+      )
+      const { auth_date: _authDate, ...fieldsWithoutDate } = fields
+      expect(validateTelegramInitData(makeInitData(fieldsWithoutDate), botToken, { now })).toEqual(malformed)
+    })
+  })
+
+  describe('with a bot identifier', () => {
+    // Signed by a key generated for the tests, Telegram's key is used by default
+    const publicKey = '2b49f6a41212ba9b46cf4df96a7c8d0b5255c54341bb1cc65d05bcaeefabf9f8'
+    const initData = [
+      'auth_date=1733584787',
+      'chat_instance=-7768203271233924421',
+      'chat_type=sender',
+      `user=${encodeURIComponent(JSON.stringify(user))}`,
+      'signature=CEC0ma728DlXvxnjAaoyvYmiJkpn2wzEcXcSTqMXo7XT0plsDtxxNdhUdbsD1VqRPG4Pp-Kuc1kv9GhMaPJOBg',
+      'hash=c6d58f9fbd42b06e72aa12c3c6b0f3c2f2c1f4c0a4b3d9d3f2d8e6a1b3c5d7e9',
+    ].join('&')
+
+    it('accepts valid init data', () => {
+      expect(validateTelegramInitData(initData, '7342037359', { now, publicKey })).toEqual({
+        valid: true,
+        data: { auth_date: authDate, chat_instance: '-7768203271233924421', chat_type: 'sender', user },
+      })
+    })
+
+    it('rejects forged init data', () => {
+      const signatureFailure: TelegramInitDataValidation = { valid: false, reason: 'signature' }
+      expect(validateTelegramInitData(initData.replace('sender', 'private'), '7342037359', { now, publicKey })).toEqual(
+        signatureFailure,
+      )
+      expect(validateTelegramInitData(initData, '1234567890', { now, publicKey })).toEqual(signatureFailure)
+      // The data isn't signed by Telegram
+      expect(validateTelegramInitData(initData, '7342037359', { now })).toEqual(signatureFailure)
+    })
+
+    it('rejects init data without a signature', () => {
+      expect(validateTelegramInitData(makeInitData({ auth_date: String(authDate) }), '7342037359', { now })).toEqual({
+        valid: false,
+        reason: 'malformed',
+      })
+    })
+  })
+})
@@ -0,0 +1,239 @@
+import { base64UrlToBytes, getUTF8Bytes } from './utils/data'
+import { verifyEd25519 } from './utils/ed25519'
+import { bytesToHex, hmacSha256 } from './utils/sha256'
+import { areStringsEqualInConstantTime } from './signing'
+
+/*
+ * Validation of the data that Telegram passes to Mini Apps (`Telegram.WebApp.initData`).
+ * See https://core.telegram.org/bots/webapps#validating-data-received-via-the-mini-app
+ */
+
+/**
+ * A Telegram user. The field names are the same as in Telegram.
+ */
+export interface TelegramUser {
+  /** Has at most 52 significant bits, so it's a safe JavaScript integer */
+  id: number
+  first_name: string
+  last_name?: string
+  username?: string
+  language_code?: string
+  is_bot?: boolean
+  is_premium?: boolean
+  added_to_attachment_menu?: boolean
+  allows_write_to_pm?: boolean
+  photo_url?: string
+}
+
+/**
+ * A Telegram chat. The field names are the same as in Telegram.
+ */
+export interface TelegramChat {
+  /** Has at most 52 significant bits, so it's a safe JavaScript integer */
+  id: number
+  type: string
+  title: string
+  username?: string
+  photo_url?: string
+}
+
+/**
+ * The parsed init data. The field names are the same as in Telegram.
+ */
+export interface TelegramInitData {
+  /** The time when the Mini App has been opened (seconds since the Unix epoch) */
+  auth_date: number
+  query_id?: string
+  user?: TelegramUser
+  /** The chat partner when the Mini App is opened from the attachment menu */
+  receiver?: TelegramUser
+  chat?: TelegramChat
+  chat_type?: string
+  chat_instance?: string
+  start_param?: string
+  /** The time (seconds since the Unix epoch) after which a message can be sent via `answerWebAppQuery` */
+  can_send_after?: number
+}
+
+export interface TelegramInitDataOptions {
+  /**
+   * The maximum age of the init data (seconds) according to its `auth_date`
+   * @default 86400 (1 day)
+   */
+  maxAgeSeconds?: number
+  /**
+   * The current time (milliseconds since the Unix epoch)
+   * @default Date.now()
+   */
+  now?: number
+  /**
+   * The Ed25519 public key (hex or bytes) that checks the `signature` field when the bot identifier is given instead of
+   * the bot token. The default is the key of the Telegram production environment.
+   */
+  publicKey?: string | Uint8Array
+}
+
+/**
+ * - `malformed` The init data doesn't have the expected fields
+ * - `signature` The hash or the signature doesn't match the init data
+ * - `expired` The init data is too old or is from the future
+ */
+export type TelegramInitDataFailureReason = 'malformed' | 'signature' | 'expired'
+
+export type TelegramInitDataValidation =
+  | { valid: true; data: TelegramInitData }
+  | { valid: false; reason: TelegramInitDataFailureReason }
+
+const productionPublicKey = 'e7bf03a2fa4602af4580703d88dda5bb59f32ed8b02a56c187fe7d34caed242d'
+
+// How much (seconds) `auth_date` may be ahead of the current time due to the clocks difference
+const maxClockSkewSeconds = 60
+
+const jsonFields = ['user', 'receiver', 'chat']
+const integerFields = ['auth_date', 'can_send_after']
+
+/**
+ * Checks that the init data of a Telegram Mini App is made by Telegram, so that its user and chat can be trusted.
+ * With a bot token (e.g. `123456:ABC-DEF`), checks the HMAC-SHA256 `hash` field.
+ * With a bot identifier (e.g. `123456`), checks the Ed25519 `signature` field, which lets third parties that don't
+ * know the bot token validate the data.
+ * Never send the bot token to browsers, run the function on a server.
+ * Designed for both browser and server environments.
+ */
+export function validateTelegramInitData(
+  initData: string,
+  botToken: string,
+  { maxAgeSeconds = 86400, now = Date.now(), publicKey = productionPublicKey }: Readonly<TelegramInitDataOptions> = {},
+): TelegramInitDataValidation {
+  const fields = parseFields(initData)
+  if (!fields) {
+    return { valid: false, reason: 'malformed' }
+  }
+
+  const isSignatureValid = /^\d+$/.test(botToken)
+    ? checkSignature(fields, botToken, typeof publicKey === 'string' ? hexToBytes(publicKey) : publicKey)
+    : checkHash(fields, botToken)
+  if (isSignatureValid === undefined) {
+    return { valid: false, reason: 'malformed' }
+  }
+  if (!isSignatureValid) {
+    return { valid: false, reason: 'signature' }
+  }
+
+  const data = parseData(fields)
+  if (!data) {
+    return { valid: false, reason: 'malformed' }
+  }
+
+  const nowSeconds = now / 1000
+  if (data.auth_date > nowSeconds + maxClockSkewSeconds || nowSeconds - data.auth_date > maxAgeSeconds) {
+    return { valid: false, reason: 'expired' }
+  }
+
+  return { valid: true, data }
+}
+
+/**
+ * Returns `undefined` if the string isn't a valid query string or has repeated fields
+ */
+function parseFields(initData: string): Map<string, string> | undefined {
+  const fields = new Map<string, string>()
+  for (const [key, value] of new URLSearchParams(initData)) {
+    if (fields.has(key)) {
+      return undefined
+    }
+    fields.set(key, value)
+  }
+  return fields
+}
+
+/**
+ * The fields except the excluded ones, sorted by the key, as `key=value` lines
+ */
+function makeDataCheckString(fields: ReadonlyMap<string, string>, excludedKeys: readonly string[]): string {
+  const lines: string[] = []
+  for (const [key, value] of fields) {
+    if (excludedKeys.indexOf(key) === -1) {
+      lines.push(`${key}=${value}`)
+    }
+  }
+  return lines.sort().join('\n')
+}
+
+/**
+ * Returns `undefined` if there is no hash
+ */
+function checkHash(fields: ReadonlyMap<string, string>, botToken: string): boolean | undefined {
+  const hash = fields.get('hash')
+  if (hash === undefined) {
+    return undefined
+  }
+  const secretKey = hmacSha256(getUTF8Bytes('WebAppData'), getUTF8Bytes(botToken))
+  const expectedHash = bytesToHex(hmacSha256(secretKey, getUTF8Bytes(makeDataCheckString(fields, ['hash']))))
+  return areStringsEqualInConstantTime(hash.toLowerCase(), expectedHash)
+}
+
+/**
+ * Returns `undefined` if there is no signature or it isn't base64url
+ */
+function checkSignature(
+  fields: ReadonlyMap<string, string>,
+  botId: string,
+  publicKey: Uint8Array,
+): boolean | undefined {
+  const signature = fields.get('signature')
+  if (signature === undefined) {
+    return undefined
+  }
+  let signatureBytes: Uint8Array
+  try {
+    signatureBytes = base64UrlToBytes(signature.replace(/=+$/, ''))
+  } catch {
+    return undefined
+  }
+  const message = `${botId}:WebAppData\n${makeDataCheckString(fields, ['hash', 'signature'])}`
+  return verifyEd25519(publicKey, getUTF8Bytes(message), signatureBytes)
+}
+
+function parseData(fields: ReadonlyMap<string, string>): TelegramInitData | undefined {
+  const data: Record<string, unknown> = {}
+  for (const [key, value] of fields) {
+    if (key === 'hash' || key === 'signature') {
+      continue
+    }
+    if (jsonFields.indexOf(key) !== -1) {
+      const object = parseJsonObject(value)
+      if (!object || typeof object.id !== 'number') {
+        return undefined
+      }
+      data[key] = object
+    } else if (integerFields.indexOf(key) !== -1) {
+      if (!/^\d+$/.test(value)) {
+        return undefined
+      }
+      data[key] = Number(value)
+    } else {
+      data[key] = value
+    }
+  }
+  return typeof data.auth_date === 'number' ? (data as unknown as TelegramInitData) : undefined
+}
+
+function parseJsonObject(json: string): Record<string, unknown> | undefined {
+  try {
+    const value: unknown = JSON.parse(json)
+    return typeof value === 'object' && value !== null && !Array.isArray(value)
+      ? (value as Record<string, unknown>)
+      : undefined
+  } catch {
+    return undefined
+  }
+}
+
+function hexToBytes(hex: string): Uint8Array {
+  const bytes = new Uint8Array(hex.length >> 1)
+  for (let i = 0; i < bytes.length; ++i) {
+    bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16)
+  }
+  return bytes
+}
@@ -0,0 +1,215 @@
+import { BuiltinComponents } from './sources'
+import { hashers } from './hashers'
+import { getTelegramDevice, TelegramDevice } from './telegram_storage'
+
+type StorageCallback = (error: unknown, value?: unknown) => void
+type TelegramWebApp = NonNullable<Window['Telegram']>['WebApp']
+
+/**
+ * Imitates a storage of `Telegram.WebApp` with the asynchronous callback API
+ */
+function makeTelegramStorage(items: Record<string, string> = {}, isBroken = false) {
+  return {
+    items,
+    getItem(key: string, callback: StorageCallback) {
+      setTimeout(() => (isBroken ? callback('UNKNOWN_ERROR') : callback(null, key in items ? items[key] : null)))
+    },
+    setItem(key: string, value: string, callback: StorageCallback) {
+      setTimeout(() => {
+        if (isBroken) {
+          callback('UNKNOWN_ERROR')
+        } else {
+          items[key] = value
+          callback(null, true)
+        }
+      })
+    },
+  }
+}
+
+function makeComponents(bridgeVersion: string, hasCloudStorage = true) {
+  return {
+    platform: { value: 'iPhone', duration: 0 },
+    hardwareConcurrency: { value: 6, duration: 0 },
+    telegramWebApp: {
+      value: {
+        isTelegramWebView: true,
+        telegramVersion: bridgeVersion,
+        platform: 'ios',
+        bridgeFingerprint: {
+          availableMethods: ['ready', 'expand'],
+          bridgeVersion,
+          supportedEvents: [],
+          hasCloudStorage,
+          hasHapticFeedback: true,
+          hasMainButton: true,
+          hasBackButton: true,
+          hasSettingsButton: true,
+        },
+      },
+      duration: 0,
+    },
+  } as unknown as BuiltinComponents
+}
+
+describe('Telegram device storage', () => {
+  const key = '_fpjs_test_device'
+  const timeout = 100
+  let cloudStorage: ReturnType<typeof makeTelegramStorage>
+
+  const runOnDevice = (
+    secureStorage: ReturnType<typeof makeTelegramStorage> | undefined,
+    deviceStorage: ReturnType<typeof makeTelegramStorage> | undefined,
+    bridgeVersion = '9.0',
+  ) => {
+    window.Telegram = {
+      WebApp: {
+        version: bridgeVersion,
+        CloudStorage: cloudStorage,
+        SecureStorage: secureStorage,
+        DeviceStorage: deviceStorage,
+      } as unknown as TelegramWebApp,
+    }
+    return getTelegramDevice(makeComponents(bridgeVersion), key, timeout)
+  }
+
+  beforeEach(() => {
+    cloudStorage = makeTelegramStorage()
+  })
+
+  afterEach(() => {
+    delete window.Telegram
+  })
+
+  it('keeps the identifier when the WebView storage is wiped', async () => {
+    const secureStorage = makeTelegramStorage()
+    const firstResult = await runOnDevice(secureStorage, makeTelegramStorage())
+    const expectedDevice: TelegramDevice = {
+      storage: 'secureStorage',
+      isNew: true,
+      isDeviceSwitched: false,
+      accountToken: jasmine.stringMatching(/^[0-9a-f]{32}$/) as unknown as string,
+    }
+    expect(firstResult?.device).toEqual(expectedDevice)
+    expect(firstResult?.visitorId).toMatch(/^[0-9a-f]{32}$/)
+
+    const secondResult = await runOnDevice(secureStorage, makeTelegramStorage())
+    expect(secondResult?.visitorId).toBe(firstResult?.visitorId)
+    expect(secondResult?.device).toEqual({ ...expectedDevice, isNew: false })
+    expect(secondResult?.device.accountToken).toBe(firstResult?.device.accountToken)
+  })
+
+  it('falls back to the device storage', async () => {
+    const deviceStorage = makeTelegramStorage()
+    const readOnlyStorage = { ...makeTelegramStorage(), setItem: makeTelegramStorage({}, true).setItem }
+    const firstResult = await runOnDevice(readOnlyStorage, deviceStorage)
+    expect(firstResult?.device.storage).toBe('deviceStorage')
+    expect(deviceStorage.items[key]).toMatch(/^[0-9a-f]{32}$/)
+
+    const secondResult = await runOnDevice(undefined, deviceStorage)
+    expect(secondResult?.device).toEqual(jasmine.objectContaining({ storage: 'deviceStorage', isNew: false }))
+    expect(secondResult?.visitorId).toBe(firstResult?.visitorId)
+  })
+
+  it('detects switching the device of the same Telegram account', async () => {
+    const phoneStorage = makeTelegramStorage()
+    const phoneResult = await runOnDevice(phoneStorage, undefined)
+    const tabletStorage = makeTelegramStorage()
+    const tabletResult = await runOnDevice(tabletStorage, undefined)
+    expect(tabletResult?.visitorId).not.toBe(phoneResult?.visitorId)
+    expect(tabletResult?.device.accountToken).toBe(phoneResult?.device.accountToken)
+    expect(tabletResult?.device).toEqual(jasmine.objectContaining({ isNew: true, isDeviceSwitched: true }))
+
+    const tabletAgainResult = await runOnDevice(tabletStorage, undefined)
+    expect(tabletAgainResult?.device.isDeviceSwitched).toBeFalse()
+    const phoneAgainResult = await runOnDevice(phoneStorage, undefined)
+    expect(phoneAgainResult?.visitorId).toBe(phoneResult?.visitorId)
+    expect(phoneAgainResult?.device).toEqual(jasmine.objectContaining({ isNew: false, isDeviceSwitched: true }))
+    expect((await runOnDevice(phoneStorage, undefined))?.device.isDeviceSwitched).toBeFalse()
+  })
+
+  it('uses the cloud storage when the device storages are unsupported', async () => {
+    const secureStorage = makeTelegramStorage()
+    const firstResult = await runOnDevice(secureStorage, makeTelegramStorage(), '8.0')
+    expect(firstResult?.device).toEqual(jasmine.objectContaining({ storage: 'cloudStorage', isNew: true }))
+    expect(secureStorage.items).toEqual({})
+
+    const secondResult = await runOnDevice(secureStorage, makeTelegramStorage(), '8.0')
+    expect(secondResult?.visitorId).toBe(firstResult?.visitorId)
+    expect(secondResult?.device).toEqual(jasmine.objectContaining({ isNew: false, isDeviceSwitched: false }))
+  })
+
+  it('works without the cloud storage', async () => {
+    cloudStorage = makeTelegramStorage({}, true)
+    const result = await runOnDevice(makeTelegramStorage(), undefined)
+    const expectedDevice: TelegramDevice = { storage: 'secureStorage', isNew: true, isDeviceSwitched: false }
+    expect(result?.device).toEqual(expectedDevice)
+  })
+
+  it('waits for the storages not longer than the timeout', async () => {
+    const silentStorage = { getItem: () => undefined, setItem: () => undefined }
+    const result = await runOnDevice(silentStorage as unknown as ReturnType<typeof makeTelegramStorage>, undefined)
+    expect(result?.device.storage).toBe('cloudStorage')
+  })
+
+  it('reads the device storages at the same time', async () => {
+    const makeSilentStorage = () => ({ ...makeTelegramStorage(), getItem: () => undefined })
+    const startTime = Date.now()
+    const result = await runOnDevice(
+      makeSilentStorage() as unknown as ReturnType<typeof makeTelegramStorage>,
+      makeSilentStorage() as unknown as ReturnType<typeof makeTelegramStorage>,
+    )
+    expect(result?.device.storage).toBe('cloudStorage')
+    expect(Date.now() - startTime).toBeLessThan(timeout * 1.5)
+  })
+
+  it("doesn't replace the device token when the device storage fails to read", async () => {
+    const secureStorage = makeTelegramStorage()
+    const firstResult = await runOnDevice(secureStorage, undefined)
+    const token = secureStorage.items[key]
+    expect(token).toMatch(/^[0-9a-f]{32}$/)
+
+    const brokenStorage = { ...secureStorage, getItem: makeTelegramStorage({}, true).getItem }
+    expect((await runOnDevice(brokenStorage, makeTelegramStorage()))?.device.storage).toBe('cloudStorage')
+    const silentStorage = { ...secureStorage, getItem: () => undefined }
+    expect((await runOnDevice(silentStorage, makeTelegramStorage()))?.device.storage).toBe('cloudStorage')
+    expect(secureStorage.items[key]).toBe(token)
+
+    const secondResult = await runOnDevice(secureStorage, undefined)
+    expect(secondResult?.visitorId).toBe(firstResult?.visitorId)
+    expect(secondResult?.device.isNew).toBeFalse()
+  })
+
+  it('clears the timeouts when the storages answer', async () => {
+    const setTimeoutSpy = spyOn(window, 'setTimeout').and.callThrough()
+    const clearTimeoutSpy = spyOn(window, 'clearTimeout').and.callThrough()
+    await runOnDevice(makeTelegramStorage(), makeTelegramStorage())
+    const storageTimeoutIds = setTimeoutSpy.calls
+      .all()
+      .filter((call) => call.args[1] === timeout)
+      .map((call) => call.returnValue)
+    expect(storageTimeoutIds.length).toBeGreaterThan(0)
+    for (const timeoutId of storageTimeoutIds) {
+      expect(clearTimeoutSpy).toHaveBeenCalledWith(timeoutId)
+    }
+  })
+
+  it('salts the identifier', async () => {
+    const secureStorage = makeTelegramStorage()
+    const result = await runOnDevice(secureStorage, undefined)
+    const saltedResult = await getTelegramDevice(makeComponents('9.0'), key, timeout, hashers.murmur3, 'site')
+    expect(saltedResult?.visitorId).not.toBe(result?.visitorId)
+    expect(saltedResult?.device.isNew).toBeFalse()
+  })
+
+  it('gives nothing outside Telegram', async () => {
+    expect(await getTelegramDevice(makeComponents('9.0'), key, timeout)).toBeUndefined()
+    window.Telegram = { WebApp: { CloudStorage: makeTelegramStorage() } as unknown as TelegramWebApp }
+    expect(await getTelegramDevice({} as BuiltinComponents, key, timeout)).toBeUndefined()
+  })
+
+  it('gives nothing when no storage works', async () => {
+    cloudStorage = makeTelegramStorage({}, true)
+    expect(await runOnDevice(makeTelegramStorage({}, true), undefined)).toBeUndefined()
+  })
+})
@@ -0,0 +1,244 @@
+import { BuiltinComponents, visitorIdTiers } from './sources'
+import { UnknownComponents } from './utils/entropy_source'
+import { hashComponents } from './components'
+import { Hasher, hashers } from './hashers'
+import { makeNonce } from './signing'
+import { setTimeoutIfFinite } from './utils/async'
+
+/**
+ * Where the Telegram device token is kept:
+ * - `secureStorage` and `deviceStorage` are local to the device (Bot API 9.0+), they survive WebView storage wipes;
+ * - `cloudStorage` is shared by all the devices of the Telegram account (Bot API 6.9+), it's used when the device
+ *   storages are unavailable.
+ */
+export type TelegramStorageType = 'secureStorage' | 'deviceStorage' | 'cloudStorage'
+
+export interface TelegramDevice {
+  /** Where the token of the Telegram-tier visitor identifier is kept */
+  storage: TelegramStorageType
+  /** Whether the token has been made by this call, e.g. when the Mini App runs on the device for the first time */
+  isNew: boolean
+  /**
+   * Whether the Telegram account has run the Mini App on another device last time.
+   * Only known when the cloud storage is available.
+   */
+  isDeviceSwitched: boolean
+  /**
+   * The token shared by all the devices of the Telegram account.
+   * Absent when the cloud storage is unavailable.
+   */
+  accountToken?: string
+}
+
+export interface TelegramDeviceResult {
+  device: TelegramDevice
+  /** The Telegram-tier visitor identifier */
+  visitorId: string
+}
+
+/**
+ * The part of the `DeviceStorage`, `SecureStorage` and `CloudStorage` API of `Telegram.WebApp` that is used here.
+ * The callbacks get an error as the first argument.
+ */
+interface TelegramStorageApi {
+  getItem(key: string, callback: (error: unknown, value?: string | null) => void): void
+  setItem(key: string, value: string, callback: (error: unknown, isStored?: boolean) => void): void
+}
+
+/**
+ * The record kept in the cloud storage
+ */
+interface AccountRecord {
+  token: string
+  /** The Telegram-tier visitor identifier of the latest device the Mini App has run on */
+  lastVisitorId?: string
+}
+
+/**
+ * Compares Telegram Bot API versions, e.g. `6.10` is newer than `6.9`
+ */
+function isVersionAtLeast(version: string, minVersion: string): boolean {
+  const parts = version.split('.')
+  const minParts = minVersion.split('.')
+  for (let i = 0; i < Math.max(parts.length, minParts.length); ++i) {
+    const part = parseInt(parts[i] || '0', 10) || 0
+    const minPart = parseInt(minParts[i] || '0', 10) || 0
+    if (part !== minPart) {
+      return part > minPart
+    }
+  }
+  return true
+}
+
+/**
+ * Turns a call of the callback API to a promise. Resolves with the fallback value when the call throws and when
+ * Telegram doesn't answer in time, which happens in old clients. Never rejects.
+ */
+function callStorage<T>(call: (callback: (result: T) => void) => void, fallback: T, timeout: number): Promise<T> {
+  return new Promise((resolve) => {
+    const cancelTimeout = setTimeoutIfFinite(() => resolve(fallback), timeout)
+    const settle = (result: T) => {
+      cancelTimeout()
+      resolve(result)
+    }
+    try {
+      call(settle)
+    } catch {
+      settle(fallback)
+    }
+  })
+}
+
+/**
+ * Resolves with `undefined` on errors. Never rejects.
+ */
+function getItem(storage: TelegramStorageApi, key: string, timeout: number): Promise<string | null | undefined> {
+  return callStorage<string | null | undefined>(
+    (callback) =>
+      storage.getItem(key, (error, value) => callback(error ? undefined : typeof value === 'string' ? value : null)),
+    undefined,
+    timeout,
+  )
+}
+
+/**
+ * Resolves with whether the value has been stored. Never rejects.
+ */
+function setItem(storage: TelegramStorageApi, key: string, value: string, timeout: number): Promise<boolean> {
+  return callStorage(
+    (callback) => storage.setItem(key, value, (error, isStored) => callback(!error && isStored !== false)),
+    false,
+    timeout,
+  )
+}
+
+function parseAccountRecord(data: string | null | undefined): AccountRecord | undefined {
+  if (!data) {
+    return undefined
+  }
+  try {
+    const record = JSON.parse(data)
+    return record && typeof record.token === 'string' && record.token ? record : undefined
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * The storages that the Telegram client supports according to the `telegramWebApp` component.
+ * `restoreItem` of `SecureStorage` isn't used because it asks the user.
+ */
+function getStorages(components: BuiltinComponents) {
+  const webApp = window.Telegram?.WebApp
+  const component = components.telegramWebApp
+  const bridge = component && 'value' in component ? component.value.bridgeFingerprint : null
+  if (!webApp || !bridge) {
+    return undefined
+  }
+
+  const deviceStorages: Array<[TelegramStorageType, TelegramStorageApi]> = []
+  if (isVersionAtLeast(bridge.bridgeVersion, '9.0')) {
+    for (const type of ['secureStorage', 'deviceStorage'] as const) {
+      const storage = webApp[type === 'secureStorage' ? 'SecureStorage' : 'DeviceStorage']
+      if (storage) {
+        deviceStorages.push([type, storage])
+      }
+    }
+  }
+  const cloudStorage: TelegramStorageApi | undefined =
+    bridge.hasCloudStorage && isVersionAtLeast(bridge.bridgeVersion, '6.9') ? webApp.CloudStorage : undefined
+
+  return { deviceStorages, cloudStorage }
+}
+
+/**
+ * Gets the device token from the first device storage that has it, or makes a token and stores it in the first device
+ * storage that accepts it. Resolves with `undefined` when a storage fails to answer before the token is found, because
+ * the storage may keep the token, and a new token would replace the identifier for good.
+ */
+async function getDeviceToken(
+  storages: ReadonlyArray<[TelegramStorageType, TelegramStorageApi]>,
+  key: string,
+  timeout: number,
+): Promise<{ storage: TelegramStorageType; token: string; isNew: boolean } | undefined> {
+  // The storages are read in parallel so that the clients that never answer don't multiply the waiting time
+  const tokens = await Promise.all(storages.map(([, storage]) => getItem(storage, key, timeout)))
+  for (let i = 0; i < storages.length; ++i) {
+    const token = tokens[i]
+    if (token === undefined) {
+      return undefined
+    }
+    if (token) {
+      return { storage: storages[i][0], token, isNew: false }
+    }
+  }
+
+  const token = makeNonce()
+  for (const [type, storage] of storages) {
+    if (await setItem(storage, key, token, timeout)) {
+      return { storage: type, token, isNew: true }
+    }
+  }
+  return undefined
+}
+
+/**
+ * Makes the Telegram-tier visitor identifier from the tokens kept in the Telegram storages.
+ *
+ * The device token makes the identifier when a device storage works, so the identifier survives the WebView storage
+ * wipes and differs between the devices of the same account. Otherwise, the account token is mixed with the `core` tier
+ * components to tell the devices apart. The cloud storage also remembers the identifier of the latest device to detect
+ * the device switches.
+ *
+ * Resolves with `undefined` outside Telegram Mini Apps and when no storage works. Never rejects.
+ */
+export async function getTelegramDevice(
+  components: BuiltinComponents,
+  key: string,
+  timeout: number,
+  hasher?: Hasher,
+  salt?: string,
+): Promise<TelegramDeviceResult | undefined> {
+  const storages = getStorages(components)
+  if (!storages) {
+    return undefined
+  }
+
+  const [deviceToken, accountData] = await Promise.all([
+    getDeviceToken(storages.deviceStorages, key, timeout),
+    storages.cloudStorage && getItem(storages.cloudStorage, key, timeout),
+  ])
+  const storedRecord = parseAccountRecord(accountData)
+  // When the cloud storage fails to read, a new token isn't made to not overwrite the existing one
+  const record = storedRecord || (accountData !== undefined ? { token: makeNonce() } : undefined)
+  if (!deviceToken && !record) {
+    return undefined
+  }
+
+  const tokenComponents: UnknownComponents = {}
+  if (deviceToken) {
+    tokenComponents.telegramDevice = { value: deviceToken.token, duration: 0 }
+  } else {
+    for (const componentKey of visitorIdTiers.core) {
+      if (componentKey in components) {
+        tokenComponents[componentKey] = (components as UnknownComponents)[componentKey]
+      }
+    }
+    tokenComponents.telegramAccount = { value: (record as AccountRecord).token, duration: 0 }
+  }
+  const visitorId = await hashComponents(tokenComponents, hasher ?? hashers.murmur3, salt)
+
+  const device: TelegramDevice = {
+    storage: deviceToken ? deviceToken.storage : 'cloudStorage',
+    isNew: deviceToken ? deviceToken.isNew : !storedRecord,
+    isDeviceSwitched: !!storedRecord?.lastVisitorId && storedRecord.lastVisitorId !== visitorId,
+  }
+  if (record) {
+    device.accountToken = record.token
+    if (record.lastVisitorId !== visitorId) {
+      const newRecord: AccountRecord = { token: record.token, lastVisitorId: visitorId }
+      await setItem(storages.cloudStorage as TelegramStorageApi, key, JSON.stringify(newRecord), timeout)
+    }
+  }
+  return { device, visitorId }
+}
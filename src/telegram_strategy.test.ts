@@ -0,0 +1,89 @@
+import { BuiltinComponents } from './sources'
+import { UnknownComponents } from './utils/entropy_source'
+import { componentsToCanonicalString } from './components'
+import { x64hash128 } from './utils/hashing'
+import { telegramStrategy } from './telegram_strategy'
+
+describe('telegramStrategy', () => {
+  describe('generateFingerprint', () => {
+    const makeComponents = (extraComponents: UnknownComponents = {}) =>
+      ({
+        platform: { value: 'iPhone', duration: 0 },
+        timezone: { value: 'Europe/London', duration: 0 },
+        telegramWebApp: { value: { isTelegramWebView: true, telegramVersion: '7.10' }, duration: 0 },
+        ...extraComponents,
+      } as UnknownComponents as BuiltinComponents)
+
+    it('hashes the canonical components', () => {
+      const components = makeComponents()
+      expect(telegramStrategy.generateFingerprint(components)).toBe(x64hash128(componentsToCanonicalString(components)))
+    })
+
+    it("doesn't collide on distinct components", () => {
+      const fingerprints = new Set<string>()
+      let count = 0
+      const add = (extraComponents: UnknownComponents) => {
+        fingerprints.add(telegramStrategy.generateFingerprint(makeComponents(extraComponents)))
+        count++
+      }
+
+      for (let i = 0; i < 1000; ++i) {
+        add({ hardwareConcurrency: { value: i, duration: 0 } })
+        add({ languages: { value: [[`lang${i}`]], duration: 0 } })
+        // Object values used to turn to "[object Object]"
+        add({ webView: { value: { isWebView: true, webViewType: `type${i}` }, duration: 0 } })
+      }
+      // The same value in different components
+      add({ deviceMemory: { value: 4, duration: 0 } })
+      add({ colorDepth: { value: 4, duration: 0 } })
+      // A separator in a value mustn't shift the value to another component
+      add({ languages: { value: 'a|vendor:b', duration: 0 } })
+      add({ languages: { value: 'a', duration: 0 }, vendor: { value: 'b', duration: 0 } })
+
+      expect(fingerprints.size).toBe(count)
+      for (const fingerprint of fingerprints) {
+        expect(fingerprint).toMatch(/^[0-9a-f]{32}$/)
+      }
+    })
+
+    it('leaves out the components that are unreliable in Telegram', () => {
+      const fingerprint = telegramStrategy.generateFingerprint(makeComponents())
+      const canvas = { value: { winding: true, geometry: 'data:image/png;1', text: 'data:image/png;2' }, duration: 0 }
+      expect(telegramStrategy.generateFingerprint(makeComponents({ canvas }))).toBe(fingerprint)
+      expect(telegramStrategy.generateFingerprint(makeComponents({ plugins: { value: [], duration: 0 } }))).toBe(
+        fingerprint,
+      )
+
+      // Outside Telegram, the canvas is reliable enough
+      const browserComponents = makeComponents({
+        telegramWebApp: { value: { isTelegramWebView: false, telegramVersion: null }, duration: 0 },
+      })
+      expect(telegramStrategy.generateFingerprint({ ...browserComponents, canvas } as BuiltinComponents)).not.toBe(
+        telegramStrategy.generateFingerprint(browserComponents),
+      )
+    })
+
+    it('leaves out the volatile components', () => {
+      const collect = (seed: number) =>
+        makeComponents({
+          behavioral: { value: { isCollecting: true, touchPatterns: { entropy: Math.random() + seed } }, duration: 0 },
+          network: { value: { connectionInfo: { downlink: 10 + seed, rtt: 50 * seed } }, duration: 0 },
+        })
+      expect(telegramStrategy.generateFingerprint(collect(1))).toBe(telegramStrategy.generateFingerprint(collect(2)))
+      expect(telegramStrategy.generateFingerprint(collect(1))).toBe(
+        telegramStrategy.generateFingerprint(makeComponents()),
+      )
+    })
+
+    it('makes unlinkable fingerprints with different salts', () => {
+      const components = makeComponents()
+      const fingerprint1 = telegramStrategy.generateFingerprint(components, 'Brand 1')
+      expect(fingerprint1).not.toBe(telegramStrategy.generateFingerprint(components))
+      expect(fingerprint1).not.toBe(telegramStrategy.generateFingerprint(components, 'Brand 2'))
+      expect(fingerprint1).toBe(telegramStrategy.generateFingerprint(components, 'Brand 1'))
+      expect(telegramStrategy.generateFingerprint(components, '')).toBe(
+        telegramStrategy.generateFingerprint(components),
+      )
+    })
+  })
+})
@@ -4,12 +4,14 @@
  */
 
 import { BuiltinComponents } from './sources'
+import { Component, UnknownComponents } from './utils/entropy_source'
+import { hashComponents } from './components'
+import { Hasher, hashers } from './hashers'
+import { AdaptiveStrategy, EnhancedConfidence } from './strategies'
+import { sourceMetadata } from './sources/metadata'
 
-export interface TelegramAdaptiveStrategy {
-  detectTelegramEnvironment(): boolean
+export interface TelegramAdaptiveStrategy extends AdaptiveStrategy {
   adjustSourceWeights(components: BuiltinComponents): EnhancedComponents
-  getEnhancedConfidenceScore(components: BuiltinComponents): EnhancedConfidence
-  generateTelegramSpecificFingerprint(components: BuiltinComponents): string
 }
 
 export interface EnhancedComponents extends BuiltinComponents {
@@ -18,16 +20,6 @@ export interface EnhancedComponents extends BuiltinComponents {
   _telegramContext?: TelegramContext
 }
 
-export interface EnhancedConfidence {
-  score: number
-  telegramAdjustment: boolean
-  behavioralFactor: number
-  webViewFactor: number
-  hapticFactor: number
-  networkFactor: number
-  stabilityScore: number
-}
-
 export interface TelegramContext {
   isTelegramWebView: boolean
   telegramVersion: string | null
@@ -37,19 +29,46 @@ export interface TelegramContext {
   networkQuality: string
 }
 
+/**
+ * The components with a lower weight are too unreliable in the environment to identify the visitor (e.g. the canvas in
+ * Telegram WebView), so they are left out of the fingerprint
+ */
+const minFingerprintWeight = 0.5
+
+type ComponentValue<K extends keyof BuiltinComponents> = BuiltinComponents[K] extends Component<infer T> ? T : never
+
+/**
+ * The components may be partial, e.g. when some sources are excluded, so any component may be missing
+ */
+function getValue<K extends keyof BuiltinComponents>(
+  components: Partial<BuiltinComponents>,
+  key: K,
+): Partial<ComponentValue<K>> | undefined {
+  const component = components[key] as Component<unknown> | undefined
+  return component && 'value' in component ? (component.value as ComponentValue<K>) : undefined
+}
+
+/**
+ * The custom components aren't considered volatile
+ */
+function isVolatile(key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(sourceMetadata, key)
+    ? sourceMetadata[key as keyof typeof sourceMetadata].stability === 'volatile'
+    : false
+}
+
 class TelegramAdaptiveStrategyImpl implements TelegramAdaptiveStrategy {
-  detectTelegramEnvironment(): boolean {
-    const ua = navigator.userAgent.toLowerCase()
-    return (
-      /telegramwebview/i.test(ua) ||
-      /telegram/i.test(ua) ||
-      window.Telegram?.WebApp !== undefined
-    )
+  /**
+   * Checks the components instead of the current browser, so that the stored and transferred components are treated
+   * the same way as the fresh ones
+   */
+  detectEnvironment(components: BuiltinComponents): boolean {
+    return !!getValue(components, 'telegramWebApp')?.isTelegramWebView
   }
 
   adjustSourceWeights(components: BuiltinComponents): EnhancedComponents {
-    const isTelegram = this.detectTelegramEnvironment()
-    
+    const isTelegram = this.detectEnvironment(components)
+
     // Default weights for all sources
     const baseWeights: Record<string, number> = {
       // Traditional sources (lower weight in WebView)
@@ -58,7 +77,7 @@ class TelegramAdaptiveStrategyImpl implements TelegramAdaptiveStrategy {
       fonts: 0.7,
       webGlBasics: 0.7,
       webGlExtensions: 0.7,
-      
+
       // Platform and device info (medium weight)
       platform: 1.0,
       hardwareConcurrency: 1.0,
@@ -66,21 +85,21 @@ class TelegramAdaptiveStrategyImpl implements TelegramAdaptiveStrategy {
       screenResolution: 0.9,
       screenFrame: 0.9,
       timezone: 1.2,
-      
+
       // Enhanced sources (higher weight in WebView)
       telegramWebApp: 1.0,
       behavioral: 1.0,
       webView: 1.0,
       network: 1.0,
       haptic: 1.0,
-      
+
       // System sources (consistent across environments)
       languages: 1.1,
       colorDepth: 1.0,
       touchSupport: 1.1,
       vendor: 0.9,
       vendorFlavors: 0.9,
-      osCpu: 1.0
+      osCpu: 1.0,
     }
 
     if (isTelegram) {
@@ -91,30 +110,30 @@ class TelegramAdaptiveStrategyImpl implements TelegramAdaptiveStrategy {
         audio: 0.3,
         fonts: 0.5,
         plugins: 0.1, // Very limited in WebView
-        
+
         // Increase weight of Telegram-specific sources
         telegramWebApp: 2.5,
         webView: 2.0,
         behavioral: 2.2,
         haptic: 1.8,
         network: 1.6,
-        
+
         // Platform identification more important
         platform: 1.3,
         vendor: 1.2,
         vendorFlavors: 1.5,
         timezone: 1.4,
         languages: 1.3,
-        
+
         // User interaction patterns
         touchSupport: 1.4,
         colorGamut: 1.1,
         reducedMotion: 1.1,
-        
+
         // Device characteristics
         hardwareConcurrency: 1.2,
         deviceMemory: 1.2,
-        screenResolution: 1.1
+        screenResolution: 1.1,
       }
 
       // Merge weights
@@ -126,64 +145,49 @@ class TelegramAdaptiveStrategyImpl implements TelegramAdaptiveStrategy {
     return {
       ...components,
       _weights: baseWeights,
-      _telegramContext: telegramContext
+      _telegramContext: telegramContext,
     }
   }
 
   getEnhancedConfidenceScore(components: BuiltinComponents): EnhancedConfidence {
-    const isTelegram = this.detectTelegramEnvironment()
+    const isTelegram = this.detectEnvironment(components)
     const context = this.extractTelegramContext(components)
-    
+
     // Calculate base confidence using existing logic
     let baseScore = 0.5 // Default confidence
-    
+
     // Platform-based adjustments
-    if ('platform' in components && components.platform) {
-      const platformComponent = components.platform as any
-      const platform = platformComponent?.value || platformComponent
-      if (typeof platform === 'string') {
-        if (platform.includes('iPhone') || platform.includes('iPad')) {
-          baseScore += 0.1
-        } else if (platform.includes('Android')) {
-          baseScore += 0.05
-        }
+    const platform = getValue(components, 'platform')
+    if (typeof platform === 'string') {
+      if (platform.includes('iPhone') || platform.includes('iPad')) {
+        baseScore += 0.1
+      } else if (platform.includes('Android')) {
+        baseScore += 0.05
       }
     }
 
     // Behavioral factor
-    let behavioralFactor = 0
-    if ('behavioral' in components && components.behavioral) {
-      const behavioral = components.behavioral as any
-      if (behavioral.touchPatterns || behavioral.motionSignature) {
-        behavioralFactor = 0.2
-      }
-    }
+    const behavioralFactor = context.hasBehavioralData ? 0.2 : 0
 
     // WebView factor
     let webViewFactor = 0
-    if ('webView' in components && components.webView) {
-      const webView = components.webView as any
-      if (webView.isWebView && webView.webViewType === 'telegram') {
-        webViewFactor = 0.25
-      }
+    const webView = getValue(components, 'webView')
+    if (webView?.isWebView && webView.webViewType === 'telegram') {
+      webViewFactor = 0.25
     }
 
     // Haptic factor
     let hapticFactor = 0
-    if ('haptic' in components && components.haptic) {
-      const haptic = components.haptic as any
-      if (haptic.isAvailable && haptic.isTelegramHaptic) {
-        hapticFactor = 0.15
-      }
+    const haptic = getValue(components, 'haptic')
+    if (haptic?.isAvailable && haptic.isTelegramHaptic) {
+      hapticFactor = 0.15
     }
 
     // Network factor
     let networkFactor = 0
-    if ('network' in components && components.network) {
-      const network = components.network as any
-      if (network.connectionInfo && network.ipBasedEntropy) {
-        networkFactor = 0.1
-      }
+    const network = getValue(components, 'network')
+    if (network?.connectionInfo && network.ipBasedEntropy) {
+      networkFactor = 0.1
     }
 
     // Calculate stability score
@@ -191,11 +195,11 @@ class TelegramAdaptiveStrategyImpl implements TelegramAdaptiveStrategy {
 
     // Final confidence calculation
     let finalScore = baseScore
-    
+
     if (isTelegram) {
       // In Telegram environment, rely more on enhanced sources
       finalScore = Math.min(0.9, baseScore + behavioralFactor + webViewFactor + hapticFactor + networkFactor)
-      
+
       // Adjust based on available data
       if (context.hasBehavioralData && context.hasHapticFeedback) {
         finalScore += 0.05
@@ -212,58 +216,35 @@ class TelegramAdaptiveStrategyImpl implements TelegramAdaptiveStrategy {
       webViewFactor,
       hapticFactor,
       networkFactor,
-      stabilityScore
+      stabilityScore,
     }
   }
 
-  generateTelegramSpecificFingerprint(components: BuiltinComponents): string {
-    const enhancedComponents = this.adjustSourceWeights(components)
-    const weights = enhancedComponents._weights || {}
-    
-    // Create weighted hash inputs
-    const weightedInputs: string[] = []
-    
-    for (const [key, component] of Object.entries(components)) {
-      if (key.startsWith('_')) continue // Skip internal properties
-      
-      const weight = weights[key] || 1.0
-      let value: string
-      
-      if (typeof component === 'object' && component !== null) {
-        if ('value' in component) {
-          value = String((component as any).value)
-        } else {
-          value = JSON.stringify(component)
-        }
-      } else {
-        value = String(component)
-      }
-      
-      // Apply weight by repeating the value
-      const repetitions = Math.max(1, Math.round(weight * 10))
-      for (let i = 0; i < repetitions; i++) {
-        weightedInputs.push(`${key}:${value}`)
+  generateFingerprint(components: BuiltinComponents, salt?: string): string
+  generateFingerprint(components: BuiltinComponents, salt: string | undefined, hasher: Hasher): string | Promise<string>
+  generateFingerprint(components: BuiltinComponents, salt?: string, hasher: Hasher = hashers.murmur3) {
+    const weights = this.adjustSourceWeights(components)._weights || {}
+
+    // Weights drive inclusion: the components that are unreliable in the environment are left out instead of being
+    // diluted, so that their changes don't change the fingerprint. The volatile components are left out regardless of
+    // the weight because they change between the collections (e.g. `behavioral` and `network`).
+    const includedComponents: UnknownComponents = {}
+    for (const key of Object.keys(components)) {
+      if ((weights[key] ?? 1.0) >= minFingerprintWeight && !isVolatile(key)) {
+        includedComponents[key] = (components as UnknownComponents)[key]
       }
     }
-    
-    // Add Telegram-specific context
-    if (enhancedComponents._telegramContext) {
-      const context = enhancedComponents._telegramContext
-      weightedInputs.push(`telegram:${context.isTelegramWebView}`)
-      weightedInputs.push(`version:${context.telegramVersion || 'unknown'}`)
-      weightedInputs.push(`webview:${context.webViewType}`)
-    }
-    
-    // Simple hash function (in real implementation, use proper hashing)
-    return this.simpleHash(weightedInputs.join('|'))
+
+    // The Telegram context isn't added because it's derived from the included components
+    return hashComponents(includedComponents, hasher, salt)
   }
 
   private extractTelegramContext(components: BuiltinComponents): TelegramContext {
-    const telegramData = 'telegramWebApp' in components ? components.telegramWebApp as any : null
-    const webViewData = 'webView' in components ? components.webView as any : null
-    const hapticData = 'haptic' in components ? components.haptic as any : null
-    const behavioralData = 'behavioral' in components ? components.behavioral as any : null
-    const networkData = 'network' in components ? components.network as any : null
+    const telegramData = getValue(components, 'telegramWebApp')
+    const webViewData = getValue(components, 'webView')
+    const hapticData = getValue(components, 'haptic')
+    const behavioralData = getValue(components, 'behavioral')
+    const networkData = getValue(components, 'network')
 
     return {
       isTelegramWebView: telegramData?.isTelegramWebView || false,
@@ -271,7 +252,7 @@ class TelegramAdaptiveStrategyImpl implements TelegramAdaptiveStrategy {
       webViewType: webViewData?.webViewType || 'unknown',
       hasHapticFeedback: hapticData?.isAvailable || false,
       hasBehavioralData: !!(behavioralData?.touchPatterns || behavioralData?.motionSignature),
-      networkQuality: networkData?.networkPerformance?.networkQuality || 'unknown'
+      networkQuality: networkData?.networkPerformance?.networkQuality || 'unknown',
     }
   }
 
@@ -316,16 +297,6 @@ class TelegramAdaptiveStrategyImpl implements TelegramAdaptiveStrategy {
 
     return totalFactors > 0 ? stabilityFactors / totalFactors : 0.5
   }
-
-  private simpleHash(str: string): string {
-    let hash = 0
-    for (let i = 0; i < str.length; i++) {
-      const char = str.charCodeAt(i)
-      hash = ((hash << 5) - hash) + char
-      hash = hash & hash // Convert to 32-bit integer
-    }
-    return Math.abs(hash).toString(16)
-  }
 }
 
 // Export singleton instance
@@ -348,6 +319,6 @@ export function calculateEnhancedConfidence(components: BuiltinComponents): Enha
 /**
  * Generates Telegram-optimized fingerprint
  */
-export function generateEnhancedFingerprint(components: BuiltinComponents): string {
-  return telegramStrategy.generateTelegramSpecificFingerprint(components)
-}
\ No newline at end of file
+export function generateEnhancedFingerprint(components: BuiltinComponents, salt?: string): string {
+  return telegramStrategy.generateFingerprint(components, salt)
+}
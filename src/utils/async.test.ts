@@ -1,5 +1,5 @@
 import { holdLoop } from '../../tests/utils'
-import { awaitIfAsync, mapWithBreaks, wait } from './async'
+import { abortable, awaitIfAsync, combineSignals, mapWithBreaks, wait } from './async'
 
 describe('Async utilities', () => {
   describe('awaitIfAsync', () => {
@@ -149,5 +149,68 @@ describe('Async utilities', () => {
         }),
       ).toBeRejectedWith(error)
     })
+
+    it('stops when the signal aborts', async () => {
+      const controller = new AbortController()
+      const callback = jasmine.createSpy().and.callFake((item: number) => {
+        if (item === 2) {
+          controller.abort()
+        }
+        holdLoop(2)
+      })
+      await expectAsync(mapWithBreaks([1, 2, 3, 4], callback, 1, controller.signal)).toBeRejectedWith(
+        jasmine.objectContaining({ name: 'AbortError' }),
+      )
+      expect(callback).toHaveBeenCalledTimes(2)
+    })
+  })
+
+  describe('abortable', () => {
+    it('settles like the given promise', async () => {
+      const controller = new AbortController()
+      expect(await abortable(wait(5, 'result'), controller.signal)).toBe('result')
+      await expectAsync(abortable(Promise.reject('error'), controller.signal)).toBeRejectedWith('error')
+    })
+
+    it('rejects right away when the signal aborts', async () => {
+      const controller = new AbortController()
+      const promise = abortable(wait(1000, 'late result'), controller.signal)
+      controller.abort()
+      await expectAsync(promise).toBeRejectedWith(jasmine.objectContaining({ name: 'AbortError' }))
+    })
+
+    it('rejects when the signal is aborted already', async () => {
+      const controller = new AbortController()
+      controller.abort()
+      await expectAsync(abortable('result', controller.signal)).toBeRejectedWith(
+        jasmine.objectContaining({ name: 'AbortError' }),
+      )
+    })
+  })
+
+  describe('combineSignals', () => {
+    it('aborts when any of the signals aborts', () => {
+      const controller1 = new AbortController()
+      const controller2 = new AbortController()
+      const [signal] = combineSignals(controller1.signal, undefined, controller2.signal)
+      expect(signal?.aborted).toBeFalse()
+      controller2.abort()
+      expect(signal?.aborted).toBeTrue()
+    })
+
+    it('stops watching the signals', () => {
+      const controller1 = new AbortController()
+      const controller2 = new AbortController()
+      const [signal, stopWatching] = combineSignals(controller1.signal, controller2.signal)
+      stopWatching()
+      controller1.abort()
+      expect(signal?.aborted).toBeFalse()
+    })
+
+    it('returns a single signal as is', () => {
+      const controller = new AbortController()
+      expect(combineSignals(undefined, controller.signal)[0]).toBe(controller.signal)
+      expect(combineSignals(undefined)[0]).toBeUndefined()
+    })
   })
 })
@@ -7,7 +7,7 @@ export function wait<T = void>(durationMs: number, resolveWith?: T): Promise<T>
 /**
  * Allows asynchronous actions and microtasks to happen.
  */
-function releaseEventLoop(): Promise<void> {
+export function releaseEventLoop(): Promise<void> {
   // Don't use setTimeout because Chrome throttles it in some cases causing very long agent execution:
   // https://stackoverflow.com/a/6032591/1118709
   // https://github.com/chromium/chromium/commit/0295dd09496330f3a9103ef7e543fa9b6050409b
@@ -31,6 +31,18 @@ export function requestIdleCallbackIfAvailable(fallbackTimeout: number, deadline
   }
 }
 
+/**
+ * Calls the callback after the given time unless the returned function is called before.
+ * Does nothing when the time is infinite so that no timer is held for nothing.
+ */
+export function setTimeoutIfFinite(callback: () => void, timeout: number): () => void {
+  if (timeout === Infinity) {
+    return () => undefined
+  }
+  const timeoutId = setTimeout(callback, Math.max(timeout, 0))
+  return () => clearTimeout(timeoutId)
+}
+
 export function isPromise<T>(value: PromiseLike<T> | unknown): value is PromiseLike<T> {
   return !!value && typeof (value as PromiseLike<T>).then === 'function'
 }
@@ -71,16 +83,20 @@ export function awaitIfAsync<TResult, TError = unknown>(
  * If you run many synchronous tasks without using this function, the JS main loop will be busy and asynchronous tasks
  * (e.g. completing a network request, rendering the page) won't be able to happen.
  * This function allows running many synchronous tasks such way that asynchronous tasks can run too in background.
+ *
+ * When the signal aborts, the remaining items aren't processed, and the returned promise rejects with an `AbortError`.
  */
 export async function mapWithBreaks<T, U>(
   items: readonly T[],
   callback: (item: T, index: number) => U,
   loopReleaseInterval = 16,
+  signal?: AbortSignal,
 ): Promise<U[]> {
   const results = Array<U>(items.length)
   let lastLoopReleaseTime = Date.now()
 
   for (let i = 0; i < items.length; ++i) {
+    throwIfAborted(signal)
     results[i] = callback(items[i], i)
 
     const now = Date.now()
@@ -90,9 +106,86 @@ export async function mapWithBreaks<T, U>(
     }
   }
 
+  throwIfAborted(signal)
   return results
 }
 
+/**
+ * Makes the same error that the native browser APIs throw when an action is aborted via an `AbortSignal`
+ */
+export function makeAbortError(): Error {
+  const message = 'The operation was aborted'
+  try {
+    return new DOMException(message, 'AbortError')
+  } catch (error) {
+    // Old browsers don't support the DOMException constructor
+    const abortError = new Error(message)
+    abortError.name = 'AbortError'
+    return abortError
+  }
+}
+
+export function isAbortError(error: unknown): boolean {
+  return (error as { name?: unknown } | undefined)?.name === 'AbortError'
+}
+
+export function throwIfAborted(signal: AbortSignal | undefined): void {
+  if (signal?.aborted) {
+    throw makeAbortError()
+  }
+}
+
+/**
+ * Calls the callback once the signal aborts (right away if the signal is aborted already).
+ * Returns a function that stops watching the signal.
+ */
+export function onAbort(signal: AbortSignal | undefined, callback: () => void): () => void {
+  if (!signal) {
+    return () => undefined
+  }
+  if (signal.aborted) {
+    callback()
+    return () => undefined
+  }
+  signal.addEventListener('abort', callback)
+  return () => signal.removeEventListener('abort', callback)
+}
+
+/**
+ * Returns a promise that settles the same way as the given promise,
+ * or rejects with an `AbortError` as soon as the signal aborts.
+ */
+export function abortable<T>(promise: MaybePromise<T>, signal: AbortSignal | undefined): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const stopWatchingAbort = onAbort(signal, () => reject(makeAbortError()))
+    Promise.resolve(promise).then(
+      (result) => {
+        stopWatchingAbort()
+        resolve(result)
+      },
+      (error) => {
+        stopWatchingAbort()
+        reject(error)
+      },
+    )
+  })
+}
+
+/**
+ * Makes a signal that aborts as soon as any of the given signals aborts.
+ * Returns the signal and a function that stops watching the given signals.
+ * `AbortSignal.any` isn't used because old browsers don't support it.
+ */
+export function combineSignals(...signals: Array<AbortSignal | undefined>): [AbortSignal | undefined, () => void] {
+  const presentSignals = signals.filter((signal): signal is AbortSignal => !!signal)
+  if (presentSignals.length <= 1) {
+    return [presentSignals[0], () => undefined]
+  }
+  const controller = new AbortController()
+  const stopWatchingFunctions = presentSignals.map((signal) => onAbort(signal, () => controller.abort()))
+  return [controller.signal, () => stopWatchingFunctions.forEach((stopWatching) => stopWatching())]
+}
+
 /**
  * Makes the given promise never emit an unhandled promise rejection console warning.
  * The promise will still pass errors to the next promises.
@@ -1,4 +1,15 @@
-import { areSetsEqual, getUTF8Bytes, maxInIterator, parseSimpleCssSelector, round, toFloat, toInt } from './data'
+import {
+  areSetsEqual,
+  base64UrlToBytes,
+  bytesToBase64Url,
+  getAllKeys,
+  getUTF8Bytes,
+  maxInIterator,
+  parseSimpleCssSelector,
+  round,
+  toFloat,
+  toInt,
+} from './data'
 
 describe('Data utilities', () => {
   it('converts to integer', () => {
@@ -102,10 +113,31 @@ describe('Data utilities', () => {
     expect(maxInIterator(emptyGenerator(), () => Math.random())).toBeUndefined()
   })
 
+  it('gets keys of 2 objects', () => {
+    expect(getAllKeys({ a: 1, b: 2 }, { c: 3, a: 4 })).toEqual(['a', 'b', 'c'])
+    expect(getAllKeys({}, { b: undefined })).toEqual(['b'])
+  })
+
   it('converts string to UTF8 bytes', () => {
     expect(getUTF8Bytes('Hello, world!')).toEqual(
       new Uint8Array([72, 101, 108, 108, 111, 44, 32, 119, 111, 114, 108, 100, 33]),
     )
     expect(getUTF8Bytes('fё%?=🤔')).toEqual(new Uint8Array([102, 209, 145, 37, 63, 61, 240, 159, 164, 148]))
   })
+
+  it('converts bytes to base64url and back', () => {
+    const testCases: [number[], string][] = [
+      [[], ''],
+      [[0], 'AA'],
+      [[251, 255], '-_8'],
+      [[72, 101, 108, 108, 111], 'SGVsbG8'],
+      [[0, 16, 131, 16, 81, 135, 32, 146, 139], 'ABCDEFGHIJKL'],
+    ]
+    for (const [bytes, base64Url] of testCases) {
+      expect(bytesToBase64Url(new Uint8Array(bytes))).toBe(base64Url)
+      expect(base64UrlToBytes(base64Url)).toEqual(new Uint8Array(bytes))
+    }
+    expect(() => base64UrlToBytes('ABCDE')).toThrowError(TypeError)
+    expect(() => base64UrlToBytes('AB+/')).toThrowError(TypeError)
+  })
 })
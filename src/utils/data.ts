@@ -123,6 +123,22 @@ export function areSetsEqual(set1: Set<unknown>, set2: Set<unknown>): boolean {
   return true
 }
 
+/**
+ * Lists the own enumerable keys of both the objects, the keys of the first object go first
+ */
+export function getAllKeys(
+  object1: Readonly<Record<string, unknown>>,
+  object2: Readonly<Record<string, unknown>>,
+): string[] {
+  const keys = Object.keys(object1)
+  for (const key of Object.keys(object2)) {
+    if (!(key in object1)) {
+      keys.push(key)
+    }
+  }
+  return keys
+}
+
 export function maxInIterator<T>(iterator: Iterator<T>, getItemScore: (item: T) => number): T | undefined {
   let maxItem: T | undefined
   let maxItemScore: number | undefined
@@ -158,3 +174,49 @@ export function getUTF8Bytes(input: string): Uint8Array {
   }
   return result
 }
+
+const base64UrlAlphabet = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_'
+
+/**
+ * Converts bytes to URL-safe base64 without padding (RFC 4648 §5).
+ * Unlike `btoa`, works with any bytes and in any environment.
+ */
+export function bytesToBase64Url(bytes: Uint8Array): string {
+  let result = ''
+  for (let i = 0; i < bytes.length; i += 3) {
+    const chunk = (bytes[i] << 16) | ((bytes[i + 1] ?? 0) << 8) | (bytes[i + 2] ?? 0)
+    const charCount = Math.min(bytes.length - i, 3) + 1
+    for (let j = 0; j < charCount; ++j) {
+      result += base64UrlAlphabet[(chunk >> (18 - j * 6)) & 63]
+    }
+  }
+  return result
+}
+
+/**
+ * The reverse of `bytesToBase64Url`. Throws a TypeError when the string isn't valid base64url.
+ */
+export function base64UrlToBytes(input: string): Uint8Array {
+  if (input.length % 4 === 1) {
+    throw new TypeError('Invalid base64url string length')
+  }
+  const result = new Uint8Array(Math.floor((input.length * 3) / 4))
+  let chunk = 0
+  for (let i = 0; i < input.length; ++i) {
+    const sextet = base64UrlAlphabet.indexOf(input[i])
+    if (sextet === -1) {
+      throw new TypeError(`Invalid base64url character at position ${i}`)
+    }
+    chunk = (chunk << 6) | sextet
+    if (i % 4 === 3 || i === input.length - 1) {
+      const chunkLength = (i % 4) + 1
+      chunk <<= (4 - chunkLength) * 6
+      const offset = Math.floor(i / 4) * 3
+      for (let j = 0; j < chunkLength - 1; ++j) {
+        result[offset + j] = (chunk >> (16 - j * 8)) & 255
+      }
+      chunk = 0
+    }
+  }
+  return result
+}
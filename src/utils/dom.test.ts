@@ -38,5 +38,27 @@ describe('DOM utilities', () => {
         jasmine.clock().uninstall()
       }
     })
+
+    it('removes the iframe right away when the signal aborts', async () => {
+      const controller = new AbortController()
+      let iframe: HTMLIFrameElement | undefined
+      const result = withIframe(
+        (_iframe) => {
+          iframe = _iframe
+          return new Promise(() => undefined) // Never completes
+        },
+        undefined,
+        undefined,
+        controller.signal,
+      )
+      while (!iframe) {
+        await new Promise((resolve) => setTimeout(resolve, 10))
+      }
+      expect(iframe.parentNode).not.toBeNull()
+
+      controller.abort()
+      expect(iframe.parentNode).toBeNull()
+      await expectAsync(result).toBeRejectedWith(jasmine.objectContaining({ name: 'AbortError' }))
+    })
   })
 })
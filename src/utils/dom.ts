@@ -1,4 +1,4 @@
-import { MaybePromise, wait } from './async'
+import { abortable, MaybePromise, onAbort, throwIfAborted, wait } from './async'
 import { parseSimpleCssSelector } from './data'
 
 /**
@@ -8,6 +8,8 @@ import { parseSimpleCssSelector } from './data'
  *
  * Notice: passing an initial HTML code doesn't work in IE.
  *
+ * When the signal aborts, the iframe is removed right away, and the returned promise rejects with an `AbortError`.
+ *
  * Warning for package users:
  * This function is out of Semantic Versioning, i.e. can change unexpectedly. Usage is at your own risk.
  */
@@ -15,18 +17,23 @@ export async function withIframe<T>(
   action: (iframe: HTMLIFrameElement, iWindow: typeof window) => MaybePromise<T>,
   initialHtml?: string,
   domPollInterval = 50,
+  signal?: AbortSignal,
 ): Promise<T> {
   const d = document
 
   // document.body can be null while the page is loading
+  throwIfAborted(signal)
   while (!d.body) {
     await wait(domPollInterval)
+    throwIfAborted(signal)
   }
 
   const iframe = d.createElement('iframe')
+  const removeIframe = () => iframe.parentNode?.removeChild(iframe)
+  const stopWatchingAbort = onAbort(signal, removeIframe)
 
   try {
-    await new Promise<void>((_resolve, _reject) => {
+    const loadPromise = new Promise<void>((_resolve, _reject) => {
       let isComplete = false
       const resolve = () => {
         isComplete = true
@@ -59,7 +66,8 @@ export async function withIframe<T>(
         // The ready state may never become 'complete' in Firefox despite the 'load' event being fired.
         // So an infinite setTimeout loop can happen without this check.
         // See https://github.com/fingerprintjs/fingerprintjs/pull/716#issuecomment-986898796
-        if (isComplete) {
+        // The removed iframe never completes loading, so the loop stops after an abort too.
+        if (isComplete || signal?.aborted) {
           return
         }
 
@@ -73,14 +81,17 @@ export async function withIframe<T>(
       }
       checkReadyState()
     })
+    await abortable(loadPromise, signal)
 
     while (!iframe.contentWindow?.document?.body) {
       await wait(domPollInterval)
+      throwIfAborted(signal)
     }
 
-    return await action(iframe, iframe.contentWindow as typeof window)
+    return await abortable(action(iframe, iframe.contentWindow as typeof window), signal)
   } finally {
-    iframe.parentNode?.removeChild(iframe)
+    stopWatchingAbort()
+    removeIframe()
   }
 }
 
@@ -0,0 +1,69 @@
+import { verifyEd25519 } from './ed25519'
+
+function hexToBytes(hex: string): Uint8Array {
+  return new Uint8Array((hex.match(/../g) || []).map((byte) => parseInt(byte, 16)))
+}
+
+describe('Ed25519', () => {
+  // Test vectors 1, 2 and 3 from RFC 8032
+  const vectors = [
+    {
+      publicKey: 'd75a980182b10ab7d54bfed3c964073a0ee172f3daa62325af021a68f707511a',
+      message: '',
+      signature:
+        'e5564300c360ac729086e2cc806e828a84877f1eb8e5d974d873e06522490155' +
+        '5fb8821590a33bacc61e39701cf9b46bd25bf5f0595bbe24655141438e7a100b',
+    },
+    {
+      publicKey: '3d4017c3e843895a92b70aa74d1b7ebc9c982ccf2ec4968cc0cd55f12af4660c',
+      message: '72',
+      signature:
+        '92a009a9f0d4cab8720e820b5f642540a2b27b5416503f8fb3762223ebdb69da' +
+        '085ac1e43e15996e458f3613d0f11d8c387b2eaeb4302aeeb00d291612bb0c00',
+    },
+    {
+      publicKey: 'fc51cd8e6218a1a38da47ed00230f0580816ed13ba3303ac5deb911548908025',
+      message: 'af82',
+      signature:
+        '6291d657deec24024827e69c3abe01a30ce548a284743a445e3680d7db5ac3ac' +
+        '18ff9b538d16f290ae67f760984dc6594a7c15e9716ed28dc027beceea1ec40a',
+    },
+  ]
+
+  it('accepts valid signatures', () => {
+    for (const { publicKey, message, signature } of vectors) {
+      expect(verifyEd25519(hexToBytes(publicKey), hexToBytes(message), hexToBytes(signature))).toBeTrue()
+    }
+  })
+
+  it('rejects wrong signatures', () => {
+    const [vector1, vector2] = vectors
+    const publicKey = hexToBytes(vector2.publicKey)
+    const message = hexToBytes(vector2.message)
+    const signature = hexToBytes(vector2.signature)
+
+    expect(verifyEd25519(publicKey, hexToBytes('73'), signature)).toBeFalse()
+    expect(verifyEd25519(hexToBytes(vector1.publicKey), message, signature)).toBeFalse()
+    for (const index of [0, 31, 32, 63]) {
+      const changedSignature = signature.slice()
+      changedSignature[index] ^= 1
+      expect(verifyEd25519(publicKey, message, changedSignature)).withContext(`byte ${index}`).toBeFalse()
+    }
+    expect(verifyEd25519(publicKey, message, signature.subarray(0, 63))).toBeFalse()
+    expect(verifyEd25519(publicKey.subarray(1), message, signature)).toBeFalse()
+  })
+
+  it('rejects malleable signatures', () => {
+    // Adding the group order to S gives another valid-looking signature that must be rejected
+    const { publicKey, message, signature } = vectors[0]
+    const signatureBytes = hexToBytes(signature)
+    const groupOrder = hexToBytes('edd3f55c1a631258d69cf7a2def9de1400000000000000000000000000000010')
+    let carry = 0
+    for (let i = 0; i < 32; ++i) {
+      const sum = signatureBytes[32 + i] + groupOrder[i] + carry
+      signatureBytes[32 + i] = sum & 0xff
+      carry = sum >> 8
+    }
+    expect(verifyEd25519(hexToBytes(publicKey), hexToBytes(message), signatureBytes)).toBeFalse()
+  })
+})
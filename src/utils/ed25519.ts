@@ -0,0 +1,395 @@
+import { sha512 } from './sha512'
+
+/*
+ * Ed25519 signature verification according to RFC 8032, based on TweetNaCl (public domain).
+ * A synchronous implementation that works in any environment, unlike SubtleCrypto which supports Ed25519 only in new
+ * browsers. The field elements are 16 limbs of 16 bits stored in a Float64Array, a point is 4 field elements
+ * (the extended coordinates X, Y, Z, T).
+ */
+
+type FieldElement = Float64Array
+type Point = [FieldElement, FieldElement, FieldElement, FieldElement]
+
+function makeFieldElement(limbs?: readonly number[]): FieldElement {
+  const element = new Float64Array(16)
+  if (limbs) {
+    element.set(limbs)
+  }
+  return element
+}
+
+const zero = makeFieldElement()
+const one = makeFieldElement([1])
+// The curve constant d = -121665/121666
+const curveD = makeFieldElement([
+  0x78a3, 0x1359, 0x4dca, 0x75eb, 0xd8ab, 0x4141, 0x0a4d, 0x0070, 0xe898, 0x7779, 0x4079, 0x8cc7, 0xfe73, 0x2b6f,
+  0x6cee, 0x5203,
+])
+const curveD2 = makeFieldElement([
+  0xf159, 0x26b2, 0x9b94, 0xebd6, 0xb156, 0x8283, 0x149a, 0x00e0, 0xd130, 0xeef3, 0x80f2, 0x198e, 0xfce7, 0x56df,
+  0xd9dc, 0x2406,
+])
+// The square root of -1
+const sqrtMinusOne = makeFieldElement([
+  0xa0b0, 0x4a0e, 0x1b27, 0xc4ee, 0xe478, 0xad2f, 0x1806, 0x2f43, 0xd7a7, 0x3dfb, 0x0099, 0x2b4d, 0xdf0b, 0x4fc1,
+  0x2480, 0x2b83,
+])
+const baseX = makeFieldElement([
+  0xd51a, 0x8f25, 0x2d60, 0xc956, 0xa7b2, 0x9525, 0xc760, 0x692c, 0xdc5c, 0xfdd6, 0xe231, 0xc0a4, 0x53fe, 0xcd6e,
+  0x36d3, 0x2169,
+])
+const baseY = makeFieldElement([
+  0x6658, 0x6666, 0x6666, 0x6666, 0x6666, 0x6666, 0x6666, 0x6666, 0x6666, 0x6666, 0x6666, 0x6666, 0x6666, 0x6666,
+  0x6666, 0x6666,
+])
+// The group order 2^252 + 27742317777372353535851937790883648493 (little-endian bytes)
+const groupOrder = new Float64Array([
+  0xed, 0xd3, 0xf5, 0x5c, 0x1a, 0x63, 0x12, 0x58, 0xd6, 0x9c, 0xf7, 0xa2, 0xde, 0xf9, 0xde, 0x14, 0, 0, 0, 0, 0, 0, 0,
+  0, 0, 0, 0, 0, 0, 0, 0, 0x10,
+])
+
+function carryLimbs(element: FieldElement): void {
+  let carry = 1
+  for (let i = 0; i < 16; ++i) {
+    const value = element[i] + carry + 65535
+    carry = Math.floor(value / 65536)
+    element[i] = value - carry * 65536
+  }
+  // 2^256 = 38 modulo 2^255 - 19
+  element[0] += carry - 1 + 37 * (carry - 1)
+}
+
+/**
+ * Swaps the elements when the bit is 1
+ */
+function select(element1: FieldElement, element2: FieldElement, bit: number): void {
+  const mask = ~(bit - 1)
+  for (let i = 0; i < 16; ++i) {
+    const difference = mask & (element1[i] ^ element2[i])
+    element1[i] ^= difference
+    element2[i] ^= difference
+  }
+}
+
+function pack(output: Uint8Array, element: FieldElement): void {
+  const reduced = makeFieldElement()
+  const subtracted = makeFieldElement()
+  reduced.set(element)
+  carryLimbs(reduced)
+  carryLimbs(reduced)
+  carryLimbs(reduced)
+  // Subtracts the field prime twice to get the canonical value
+  for (let j = 0; j < 2; ++j) {
+    subtracted[0] = reduced[0] - 0xffed
+    for (let i = 1; i < 15; ++i) {
+      subtracted[i] = reduced[i] - 0xffff - ((subtracted[i - 1] >> 16) & 1)
+      subtracted[i - 1] &= 0xffff
+    }
+    subtracted[15] = reduced[15] - 0x7fff - ((subtracted[14] >> 16) & 1)
+    const borrow = (subtracted[15] >> 16) & 1
+    subtracted[14] &= 0xffff
+    select(reduced, subtracted, 1 - borrow)
+  }
+  for (let i = 0; i < 16; ++i) {
+    output[2 * i] = reduced[i] & 0xff
+    output[2 * i + 1] = reduced[i] >> 8
+  }
+}
+
+function areEqual(element1: FieldElement, element2: FieldElement): boolean {
+  const bytes1 = new Uint8Array(32)
+  const bytes2 = new Uint8Array(32)
+  pack(bytes1, element1)
+  pack(bytes2, element2)
+  return areBytesEqual(bytes1, bytes2)
+}
+
+function getParity(element: FieldElement): number {
+  const bytes = new Uint8Array(32)
+  pack(bytes, element)
+  return bytes[0] & 1
+}
+
+function unpack(output: FieldElement, bytes: Uint8Array): void {
+  for (let i = 0; i < 16; ++i) {
+    output[i] = bytes[2 * i] + (bytes[2 * i + 1] << 8)
+  }
+  output[15] &= 0x7fff
+}
+
+function add(output: FieldElement, element1: FieldElement, element2: FieldElement): void {
+  for (let i = 0; i < 16; ++i) {
+    output[i] = element1[i] + element2[i]
+  }
+}
+
+function subtract(output: FieldElement, element1: FieldElement, element2: FieldElement): void {
+  for (let i = 0; i < 16; ++i) {
+    output[i] = element1[i] - element2[i]
+  }
+}
+
+// Reused to not allocate memory on every multiplication, which is the most frequent operation
+const product = new Float64Array(31)
+
+function multiply(output: FieldElement, element1: FieldElement, element2: FieldElement): void {
+  product.fill(0)
+  for (let i = 0; i < 16; ++i) {
+    for (let j = 0; j < 16; ++j) {
+      product[i + j] += element1[i] * element2[j]
+    }
+  }
+  for (let i = 0; i < 15; ++i) {
+    product[i] += 38 * product[i + 16]
+  }
+  for (let i = 0; i < 16; ++i) {
+    output[i] = product[i]
+  }
+  carryLimbs(output)
+  carryLimbs(output)
+}
+
+function square(output: FieldElement, element: FieldElement): void {
+  multiply(output, element, element)
+}
+
+/**
+ * Raises to the power 2^255 - 21, i.e. finds the inverse element
+ */
+function invert(output: FieldElement, element: FieldElement): void {
+  const result = makeFieldElement()
+  result.set(element)
+  for (let i = 253; i >= 0; --i) {
+    square(result, result)
+    if (i !== 2 && i !== 4) {
+      multiply(result, result, element)
+    }
+  }
+  output.set(result)
+}
+
+/**
+ * Raises to the power 2^252 - 3, required to find square roots
+ */
+function raiseToPower2523(output: FieldElement, element: FieldElement): void {
+  const result = makeFieldElement()
+  result.set(element)
+  for (let i = 250; i >= 0; --i) {
+    square(result, result)
+    if (i !== 1) {
+      multiply(result, result, element)
+    }
+  }
+  output.set(result)
+}
+
+function makePoint(): Point {
+  return [makeFieldElement(), makeFieldElement(), makeFieldElement(), makeFieldElement()]
+}
+
+/**
+ * Adds the second point to the first one
+ */
+function addPoints(point1: Point, point2: Point): void {
+  const a = makeFieldElement()
+  const b = makeFieldElement()
+  const c = makeFieldElement()
+  const d = makeFieldElement()
+  const e = makeFieldElement()
+  const f = makeFieldElement()
+  const g = makeFieldElement()
+  const h = makeFieldElement()
+  const temp = makeFieldElement()
+
+  subtract(a, point1[1], point1[0])
+  subtract(temp, point2[1], point2[0])
+  multiply(a, a, temp)
+  add(b, point1[0], point1[1])
+  add(temp, point2[0], point2[1])
+  multiply(b, b, temp)
+  multiply(c, point1[3], point2[3])
+  multiply(c, c, curveD2)
+  multiply(d, point1[2], point2[2])
+  add(d, d, d)
+  subtract(e, b, a)
+  subtract(f, d, c)
+  add(g, d, c)
+  add(h, b, a)
+
+  multiply(point1[0], e, f)
+  multiply(point1[1], h, g)
+  multiply(point1[2], g, f)
+  multiply(point1[3], e, h)
+}
+
+function packPoint(output: Uint8Array, point: Point): void {
+  const x = makeFieldElement()
+  const y = makeFieldElement()
+  const zInverse = makeFieldElement()
+  invert(zInverse, point[2])
+  multiply(x, point[0], zInverse)
+  multiply(y, point[1], zInverse)
+  pack(output, y)
+  output[31] ^= getParity(x) << 7
+}
+
+/**
+ * Calculates `scalar * point` into the output. Spoils the point.
+ */
+function multiplyPoint(output: Point, point: Point, scalar: ArrayLike<number>): void {
+  output[0].set(zero)
+  output[1].set(one)
+  output[2].set(one)
+  output[3].set(zero)
+  for (let i = 255; i >= 0; --i) {
+    const bit = (scalar[(i / 8) | 0] >> (i & 7)) & 1
+    for (let j = 0; j < 4; ++j) {
+      select(output[j], point[j], bit)
+    }
+    addPoints(point, output)
+    addPoints(output, output)
+    for (let j = 0; j < 4; ++j) {
+      select(output[j], point[j], bit)
+    }
+  }
+}
+
+function multiplyBasePoint(output: Point, scalar: ArrayLike<number>): void {
+  const basePoint = makePoint()
+  basePoint[0].set(baseX)
+  basePoint[1].set(baseY)
+  basePoint[2].set(one)
+  multiply(basePoint[3], baseX, baseY)
+  multiplyPoint(output, basePoint, scalar)
+}
+
+/**
+ * Decodes a point and negates it. Returns `false` if the bytes don't encode a curve point.
+ */
+function unpackNegativePoint(output: Point, bytes: Uint8Array): boolean {
+  const temp = makeFieldElement()
+  const check = makeFieldElement()
+  const numerator = makeFieldElement()
+  const denominator = makeFieldElement()
+  const denominator2 = makeFieldElement()
+  const denominator4 = makeFieldElement()
+  const denominator6 = makeFieldElement()
+
+  output[2].set(one)
+  unpack(output[1], bytes)
+  square(numerator, output[1])
+  multiply(denominator, numerator, curveD)
+  subtract(numerator, numerator, output[2])
+  add(denominator, output[2], denominator)
+
+  square(denominator2, denominator)
+  square(denominator4, denominator2)
+  multiply(denominator6, denominator4, denominator2)
+  multiply(temp, denominator6, numerator)
+  multiply(temp, temp, denominator)
+
+  raiseToPower2523(temp, temp)
+  multiply(temp, temp, numerator)
+  multiply(temp, temp, denominator)
+  multiply(temp, temp, denominator)
+  multiply(output[0], temp, denominator)
+
+  square(check, output[0])
+  multiply(check, check, denominator)
+  if (!areEqual(check, numerator)) {
+    multiply(output[0], output[0], sqrtMinusOne)
+  }
+  square(check, output[0])
+  multiply(check, check, denominator)
+  if (!areEqual(check, numerator)) {
+    return false
+  }
+
+  if (getParity(output[0]) === bytes[31] >> 7) {
+    subtract(output[0], zero, output[0])
+  }
+  multiply(output[3], output[0], output[1])
+  return true
+}
+
+/**
+ * Reduces a 64-byte little-endian number modulo the group order into 32 bytes
+ */
+function reduceScalar(output: Uint8Array, number: Float64Array): void {
+  for (let i = 63; i >= 32; --i) {
+    let carry = 0
+    let j = i - 32
+    for (; j < i - 12; ++j) {
+      number[j] += carry - 16 * number[i] * groupOrder[j - (i - 32)]
+      carry = Math.floor((number[j] + 128) / 256)
+      number[j] -= carry * 256
+    }
+    number[j] += carry
+    number[i] = 0
+  }
+  let carry = 0
+  for (let j = 0; j < 32; ++j) {
+    number[j] += carry - (number[31] >> 4) * groupOrder[j]
+    carry = number[j] >> 8
+    number[j] &= 255
+  }
+  for (let j = 0; j < 32; ++j) {
+    number[j] -= carry * groupOrder[j]
+  }
+  for (let i = 0; i < 32; ++i) {
+    number[i + 1] += number[i] >> 8
+    output[i] = number[i] & 255
+  }
+}
+
+/**
+ * Checks that the little-endian scalar is less than the group order, which rules out malleable signatures
+ */
+function isCanonicalScalar(scalar: Uint8Array): boolean {
+  for (let i = 31; i >= 0; --i) {
+    if (scalar[i] !== groupOrder[i]) {
+      return scalar[i] < groupOrder[i]
+    }
+  }
+  return false
+}
+
+function areBytesEqual(bytes1: Uint8Array, bytes2: Uint8Array): boolean {
+  let difference = 0
+  for (let i = 0; i < bytes1.length; ++i) {
+    difference |= bytes1[i] ^ bytes2[i]
+  }
+  return difference === 0
+}
+
+/**
+ * Checks an Ed25519 signature (64 bytes) of the message made with the private key of the public key (32 bytes)
+ */
+export function verifyEd25519(publicKey: Uint8Array, message: Uint8Array, signature: Uint8Array): boolean {
+  if (publicKey.length !== 32 || signature.length !== 64 || !isCanonicalScalar(signature.subarray(32))) {
+    return false
+  }
+
+  const negativeA = makePoint()
+  if (!unpackNegativePoint(negativeA, publicKey)) {
+    return false
+  }
+
+  // h = SHA-512(R || A || M) modulo the group order
+  const hashInput = new Uint8Array(64 + message.length)
+  hashInput.set(signature.subarray(0, 32))
+  hashInput.set(publicKey, 32)
+  hashInput.set(message, 64)
+  const h = new Uint8Array(32)
+  reduceScalar(h, new Float64Array(sha512(hashInput)))
+
+  // The signature is valid when S * B - h * A = R
+  const point = makePoint()
+  const sB = makePoint()
+  multiplyPoint(point, negativeA, h)
+  multiplyBasePoint(sB, signature.subarray(32))
+  addPoints(point, sB)
+  const r = new Uint8Array(32)
+  packPoint(r, point)
+  return areBytesEqual(r, signature.subarray(0, 32))
+}
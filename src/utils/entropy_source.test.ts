@@ -1,6 +1,6 @@
 import { holdLoop } from '../../tests/utils'
 import { isPromise, wait } from './async'
-import { Component, loadSource, loadSources, Source, transformSource } from './entropy_source'
+import { Component, loadSource, loadSources, Source, TimeoutError, transformSource } from './entropy_source'
 
 describe('Entropy source utilities', () => {
   describe('loadSource', () => {
@@ -219,6 +219,133 @@ describe('Entropy source utilities', () => {
       await wait(1) // To let potential unhandled promise rejections happen
       await expectAsync(loadedSource()).toBeRejectedWith(new Error('Artificial'))
     })
+
+    describe('timeout', () => {
+      it('stops waiting for "load" phase', async () => {
+        const loadedSource = loadSource(() => wait(100, 'late value'), undefined, 20)
+        const component = await loadedSource()
+        expect(component).toEqual({ error: jasmine.any(TimeoutError), duration: jasmine.any(Number) })
+        expect(component.duration).toBeGreaterThanOrEqual(20)
+        expect(component.duration).toBeLessThan(100)
+      })
+
+      it('stops waiting for "get" phase', async () => {
+        const loadedSource = loadSource(() => wait(10, () => wait(100, 'late value')), undefined, 30)
+        const component = await loadedSource()
+        expect(component).toEqual({ error: jasmine.any(TimeoutError), duration: jasmine.any(Number) })
+        expect(component.duration).toBeGreaterThanOrEqual(30)
+        expect(component.duration).toBeLessThan(100)
+      })
+
+      it("doesn't affect sources that complete in time", async () => {
+        const loadedSource = loadSource(() => wait(5, () => wait(5, 'value')), undefined, 100)
+        expect(await loadedSource()).toEqual({ value: 'value', duration: jasmine.any(Number) })
+      })
+
+      it('stops waiting when the deadline comes', async () => {
+        const loadedSource = loadSource(() => wait(100, 'late value'), undefined)
+        const component = await loadedSource(Date.now() + 20)
+        expect(component).toEqual({ error: jasmine.any(TimeoutError), duration: jasmine.any(Number) })
+        expect(component.duration).toBeLessThan(100)
+      })
+    })
+
+    describe('hooks', () => {
+      it('reports the stages of a successful source', async () => {
+        const hooks = {
+          onSourceStart: jasmine.createSpy(),
+          onSourceComplete: jasmine.createSpy(),
+          onSourceError: jasmine.createSpy(),
+        }
+        const loadedSource = loadSource(() => wait(5, () => wait(5, 'value')), undefined, undefined, hooks, 'foo')
+        await loadedSource()
+        expect(hooks.onSourceStart.calls.allArgs()).toEqual([
+          [{ key: 'foo', stage: 'load' }],
+          [{ key: 'foo', stage: 'get' }],
+        ])
+        expect(hooks.onSourceComplete.calls.allArgs()).toEqual([
+          [{ key: 'foo', stage: 'load', duration: jasmine.any(Number) }],
+          [{ key: 'foo', stage: 'get', duration: jasmine.any(Number) }],
+        ])
+        expect(hooks.onSourceError).not.toHaveBeenCalled()
+      })
+
+      it('reports errors', async () => {
+        const error = new Error('Fail')
+        const onSourceError = jasmine.createSpy()
+        const loadedSource = loadSource(
+          () => () => {
+            throw error
+          },
+          undefined,
+          undefined,
+          { onSourceError },
+          'foo',
+        )
+        await loadedSource()
+        expect(onSourceError).toHaveBeenCalledOnceWith({
+          key: 'foo',
+          stage: 'get',
+          duration: jasmine.any(Number),
+          error,
+        })
+      })
+
+      it('reports timeouts once', async () => {
+        const hooks = {
+          onSourceComplete: jasmine.createSpy(),
+          onSourceError: jasmine.createSpy(),
+        }
+        const loadedSource = loadSource(() => wait(30, 'late value'), undefined, 10, hooks, 'foo')
+        await loadedSource()
+        await wait(40)
+        expect(hooks.onSourceError).toHaveBeenCalledOnceWith({
+          key: 'foo',
+          stage: 'load',
+          duration: jasmine.any(Number),
+          error: jasmine.any(TimeoutError),
+        })
+        expect(hooks.onSourceComplete).not.toHaveBeenCalled()
+      })
+
+      it('reports nothing after the deadline of the call', async () => {
+        const events: unknown[] = []
+        const hooks = {
+          onSourceStart: (event: unknown) => events.push(['start', event]),
+          onSourceComplete: (event: unknown) => events.push(['complete', event]),
+          onSourceError: (event: unknown) => events.push(['error', event]),
+        }
+        const getStage = jasmine.createSpy().and.returnValue('value')
+        const loadedSource = loadSource(() => wait(30, getStage), undefined, undefined, hooks, 'foo')
+        const component = await loadedSource(Date.now() + 10)
+        await wait(40)
+        expect(component).toEqual({ error: jasmine.any(TimeoutError), duration: jasmine.any(Number) })
+        expect(getStage).not.toHaveBeenCalled()
+        expect(events).toEqual([
+          ['start', { key: 'foo', stage: 'load' }],
+          ['error', { key: 'foo', stage: 'load', duration: jasmine.any(Number), error: jasmine.any(TimeoutError) }],
+        ])
+
+        // The next calls use the loaded source
+        expect(await loadedSource()).toEqual({ value: 'value', duration: jasmine.any(Number) })
+        expect(events.slice(2)).toEqual([
+          ['start', { key: 'foo', stage: 'get' }],
+          ['complete', { key: 'foo', stage: 'get', duration: jasmine.any(Number) }],
+        ])
+      })
+
+      it("isn't affected by errors in hooks", async () => {
+        const consoleError = spyOn(console, 'error')
+        const hooks = {
+          onSourceStart() {
+            throw new Error('Hook error')
+          },
+        }
+        const loadedSource = loadSource(() => 'value', undefined, undefined, hooks, 'foo')
+        expect(await loadedSource()).toEqual({ value: 'value', duration: jasmine.any(Number) })
+        expect(consoleError).toHaveBeenCalledOnceWith(new Error('Hook error'))
+      })
+    })
   })
 
   describe('loadSources', () => {
@@ -374,6 +501,114 @@ describe('Entropy source utilities', () => {
       expect(sources.two).toHaveBeenCalledTimes(1)
     })
 
+    it('applies the per-source timeouts', async () => {
+      const sources = {
+        fast: () => wait(5, 'fast'),
+        slow: () => wait(100, 'slow'),
+      }
+
+      const loadedSources = loadSources(sources, undefined, [], undefined, { slow: 20 })
+      expect(await loadedSources()).toEqual({
+        fast: { value: 'fast', duration: jasmine.any(Number) },
+        slow: { error: jasmine.any(TimeoutError), duration: jasmine.any(Number) },
+      })
+    })
+
+    it('keeps the time budget', async () => {
+      const sources = {
+        sync: () => 'sync',
+        slowLoad: () => wait(200, 'slow'),
+        slowGet: () => () => wait(200, 'slow'),
+      }
+
+      const loadedSources = loadSources(sources, undefined, [])
+      const startTime = Date.now()
+      const components = await loadedSources(30)
+      expect(Date.now() - startTime).toBeLessThan(200)
+      expect(components).toEqual({
+        sync: { value: 'sync', duration: jasmine.any(Number) },
+        slowLoad: { error: jasmine.any(TimeoutError), duration: jasmine.any(Number) },
+        slowGet: { error: jasmine.any(TimeoutError), duration: jasmine.any(Number) },
+      })
+    })
+
+    it('provides each component as soon as it is got', async () => {
+      const sources = {
+        slow: () => wait(30, 'slow'),
+        fast: () => 'fast',
+      }
+      const receivedComponents: Array<[string, Component<unknown>]> = []
+
+      const loadedSources = loadSources(sources, undefined, [])
+      const components = await loadedSources(undefined, undefined, (key, component) => {
+        receivedComponents.push([key, component])
+      })
+      expect(receivedComponents).toEqual([
+        ['fast', components.fast],
+        ['slow', components.slow],
+      ])
+    })
+
+    it("isn't affected by errors in the component listener", async () => {
+      const consoleError = spyOn(console, 'error')
+      const loadedSources = loadSources({ one: () => 1 }, undefined, [])
+      const components = await loadedSources(undefined, undefined, () => {
+        throw new Error('Listener error')
+      })
+      expect(components).toEqual({ one: { value: 1, duration: jasmine.any(Number) } })
+      expect(consoleError).toHaveBeenCalledOnceWith(new Error('Listener error'))
+    })
+
+    it('stops loading sources when the signal aborts', async () => {
+      const controller = new AbortController()
+      const sources = {
+        one: () => {
+          controller.abort()
+          holdLoop(20) // To make `loadSources` release the JS event loop
+          return 1
+        },
+        two: jasmine.createSpy(),
+      }
+
+      const loadedSources = loadSources(sources, undefined, [], undefined, undefined, controller.signal)
+      await expectAsync(loadedSources()).toBeRejectedWith(jasmine.objectContaining({ name: 'AbortError' }))
+      expect(sources.two).not.toHaveBeenCalled()
+    })
+
+    it('stops getting components when the signal aborts', async () => {
+      const sources = {
+        one: () => 1,
+        two: () => () => wait(1000, 2),
+      }
+
+      const loadedSources = loadSources(sources, undefined, [])
+      const controller = new AbortController()
+      const componentsPromise = loadedSources(undefined, controller.signal)
+      await wait(10)
+      controller.abort()
+      await expectAsync(componentsPromise).toBeRejectedWith(jasmine.objectContaining({ name: 'AbortError' }))
+
+      // The sources stay usable
+      expect(await loadedSources(20)).toEqual({
+        one: { value: 1, duration: jasmine.any(Number) },
+        two: { error: jasmine.any(TimeoutError), duration: jasmine.any(Number) },
+      })
+    })
+
+    it('stops getting components when the load signal aborts', async () => {
+      const sources = {
+        one: () => 1,
+        two: () => () => wait(1000, 2),
+      }
+
+      const controller = new AbortController()
+      const loadedSources = loadSources(sources, undefined, [], undefined, undefined, controller.signal)
+      const componentsPromise = loadedSources()
+      await wait(10)
+      controller.abort()
+      await expectAsync(componentsPromise).toBeRejectedWith(jasmine.objectContaining({ name: 'AbortError' }))
+    })
+
     it('throws in case of an unexpected error outside the source', async () => {
       const sources = {
         corrupt: {
@@ -1,6 +1,17 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
-import { awaitIfAsync, isPromise, mapWithBreaks, MaybePromise, suppressUnhandledRejectionWarning } from './async'
+import {
+  abortable,
+  awaitIfAsync,
+  combineSignals,
+  isPromise,
+  mapWithBreaks,
+  MaybePromise,
+  setTimeoutIfFinite,
+  suppressUnhandledRejectionWarning,
+  throwIfAborted,
+} from './async'
 import { excludes } from './data'
+import { runScheduled, TaskSchedulings } from './scheduler'
 
 /**
  * A functions that returns data with entropy to identify visitor.
@@ -39,6 +50,11 @@ export type Component<T> = (
  */
 export type UnknownComponents = Record<string, Component<unknown>>
 
+/**
+ * Receives a component as soon as the component is got
+ */
+export type ComponentListener = (sourceKey: string, component: Component<unknown>) => void
+
 /**
  * Converts an entropy source list type to a corresponding component list type.
  *
@@ -49,6 +65,58 @@ export type SourcesToComponents<TSources extends UnknownSources<any>> = {
   [K in keyof TSources]: Component<SourceValue<TSources[K]>>
 }
 
+/**
+ * The error of a component which source hasn't completed within the given time
+ */
+export class TimeoutError extends Error {
+  constructor(message = 'The entropy source has run out of time') {
+    super(message)
+    this.name = 'TimeoutError'
+  }
+}
+
+/**
+ * A stage of running an entropy source, see the `Source` type
+ */
+export type SourceStage = 'load' | 'get'
+
+export interface SourceStartEvent {
+  key: string
+  stage: SourceStage
+}
+
+export interface SourceCompleteEvent extends SourceStartEvent {
+  /** The stage duration in milliseconds */
+  duration: number
+}
+
+export interface SourceErrorEvent extends SourceCompleteEvent {
+  error: unknown
+}
+
+/**
+ * Callbacks that follow the lifecycle of the entropy sources.
+ * An error thrown by a callback doesn't affect the sources.
+ */
+export interface SourceHooks {
+  onSourceStart?: (event: SourceStartEvent) => void
+  onSourceComplete?: (event: SourceCompleteEvent) => void
+  onSourceError?: (event: SourceErrorEvent) => void
+}
+
+export function callHook<TEvent>(hook: ((event: TEvent) => void) | undefined, event: TEvent): void {
+  if (!hook) {
+    return
+  }
+  try {
+    hook(event)
+  } catch (error) {
+    // console.error is ok here because it's an unexpected error handler
+    // eslint-disable-next-line no-console
+    console.error(error)
+  }
+}
+
 function isFinalResultLoaded<TValue>(loadResult: TValue | (() => MaybePromise<TValue>)): loadResult is TValue {
   return typeof loadResult !== 'function'
 }
@@ -58,25 +126,69 @@ function isFinalResultLoaded<TValue>(loadResult: TValue | (() => MaybePromise<TV
  *
  * The result is returned synchronously to prevent `loadSources` from
  * waiting for one source to load before getting the components from the other sources.
+ *
+ * When the source takes more time than `timeout` (milliseconds, the "load" and "get" stages in total),
+ * the component gets a `TimeoutError` error. The returned function accepts a deadline (a timestamp)
+ * that limits the time of getting the component the same way.
+ *
+ * The hooks are called with the given source key when the stages start and end.
  */
 export function loadSource<TOptions, TValue>(
   source: Source<TOptions, TValue>,
   sourceOptions: TOptions,
-): () => Promise<Component<TValue>> {
+  timeout = Infinity,
+  hooks: Readonly<SourceHooks> = {},
+  sourceKey = '',
+): (deadline?: number) => Promise<Component<TValue>> {
+  const reportStart = (stage: SourceStage) => callHook(hooks.onSourceStart, { key: sourceKey, stage })
+  const reportSuccess = (stage: SourceStage, duration: number) =>
+    callHook(hooks.onSourceComplete, { key: sourceKey, stage, duration })
+  const reportError = (stage: SourceStage, duration: number, error: unknown) =>
+    callHook(hooks.onSourceError, { key: sourceKey, stage, duration, error })
+
+  // The "load" stage ends once for the hooks, even when it's ended earlier by the deadline of a `getComponent` call
+  let isLoadReported = false
+  const reportLoadEnd = (report: () => void) => {
+    if (!isLoadReported) {
+      isLoadReported = true
+      report()
+    }
+  }
+
+  // The hook is called before the time measurement starts in order not to affect the duration
+  reportStart('load')
+  const loadStartTime = Date.now()
+  let isLoadSettled = false
+
   const sourceLoadPromise = suppressUnhandledRejectionWarning(
-    new Promise<() => MaybePromise<Component<TValue>>>((resolveLoad) => {
-      const loadStartTime = Date.now()
+    new Promise<(deadline: number) => MaybePromise<Component<TValue>>>((resolveLoad) => {
+      const cancelLoadTimeout = setTimeoutIfFinite(() => {
+        const duration = Date.now() - loadStartTime
+        const error = new TimeoutError()
+        isLoadSettled = true
+        reportLoadEnd(() => reportError('load', duration, error))
+        resolveLoad(() => ({ error, duration }))
+      }, timeout)
 
       // `awaitIfAsync` is used instead of just `await` in order to measure the duration of synchronous sources
       // correctly (other microtasks won't affect the duration).
       awaitIfAsync(source.bind(null, sourceOptions), (...loadArgs) => {
+        cancelLoadTimeout()
         const loadDuration = Date.now() - loadStartTime
 
+        // The source has run out of time
+        if (isLoadSettled) {
+          return
+        }
+        isLoadSettled = true
+
         // Source loading failed
         if (!loadArgs[0]) {
+          reportLoadEnd(() => reportError('load', loadDuration, loadArgs[1]))
           return resolveLoad(() => ({ error: loadArgs[1], duration: loadDuration }))
         }
 
+        reportLoadEnd(() => reportSuccess('load', loadDuration))
         const loadResult = loadArgs[1]
 
         // Source loaded with the final result
@@ -86,19 +198,39 @@ export function loadSource<TOptions, TValue>(
 
         // Source loaded with "get" stage
         resolveLoad(
-          () =>
+          (deadline) =>
             new Promise<Component<TValue>>((resolveGet) => {
+              reportStart('get')
               const getStartTime = Date.now()
+              let isGetSettled = false
+
+              const cancelGetTimeout = setTimeoutIfFinite(() => {
+                const getDuration = Date.now() - getStartTime
+                const error = new TimeoutError()
+                isGetSettled = true
+                reportError('get', getDuration, error)
+                resolveGet({ error, duration: loadDuration + getDuration })
+              }, Math.min(timeout - loadDuration, deadline - getStartTime))
 
               awaitIfAsync(loadResult, (...getArgs) => {
-                const duration = loadDuration + Date.now() - getStartTime
+                cancelGetTimeout()
+                const getDuration = Date.now() - getStartTime
+                const duration = loadDuration + getDuration
+
+                // The source has run out of time
+                if (isGetSettled) {
+                  return
+                }
+                isGetSettled = true
 
                 // Source getting failed
                 if (!getArgs[0]) {
+                  reportError('get', getDuration, getArgs[1])
                   return resolveGet({ error: getArgs[1], duration })
                 }
 
                 // Source getting succeeded
+                reportSuccess('get', getDuration)
                 resolveGet({ value: getArgs[1], duration })
               })
             }),
@@ -107,13 +239,46 @@ export function loadSource<TOptions, TValue>(
     }),
   )
 
-  return function getComponent() {
-    return sourceLoadPromise.then((finalizeSource) => finalizeSource())
+  return function getComponent(deadline = Infinity) {
+    return new Promise((resolve, reject) => {
+      let isDeadlineReached = false
+
+      // Stops waiting for the "load" stage when the deadline comes
+      const cancelDeadline = setTimeoutIfFinite(() => {
+        isDeadlineReached = true
+        const duration = Date.now() - loadStartTime
+        const error = new TimeoutError()
+        reportLoadEnd(() => reportError('load', duration, error))
+        resolve({ error, duration })
+      }, deadline - Date.now())
+
+      sourceLoadPromise.then(
+        (finalizeSource) => {
+          cancelDeadline()
+          // The component of this call has been settled by the deadline, so the "get" stage mustn't run
+          if (!isDeadlineReached) {
+            resolve(finalizeSource(deadline))
+          }
+        },
+        (error) => {
+          cancelDeadline()
+          reject(error)
+        },
+      )
+    })
   }
 }
 
 /**
  * Loads the given entropy sources. Returns a function that collects the entropy components.
+ * The function accepts a time budget (milliseconds) after which the unfinished components get a `TimeoutError` error.
+ *
+ * When `signal` aborts, the sources stop loading, and the function rejects with an `AbortError`.
+ * The function also accepts its own signal that cancels the particular collection,
+ * and a listener that receives each component as soon as it's got, before all the components are collected.
+ *
+ * The sources are loaded in the order and the manner defined by `sourceSchedulings` (see `runScheduled`).
+ * The sources without scheduling are treated as touching the DOM and load in the given order.
  *
  * The result is returned synchronously in order to allow start getting the components
  * before the sources are loaded completely.
@@ -126,27 +291,67 @@ export function loadSources<TSourceOptions, TSources extends UnknownSources<TSou
   sourceOptions: TSourceOptions,
   excludeSources: readonly TExclude[],
   loopReleaseInterval?: number,
-): () => Promise<Omit<SourcesToComponents<TSources>, TExclude>> {
+  sourceTimeouts: Readonly<Partial<Record<string, number>>> = {},
+  signal?: AbortSignal,
+  hooks?: Readonly<SourceHooks>,
+  sourceSchedulings: TaskSchedulings = {},
+): (
+  budget?: number,
+  getSignal?: AbortSignal,
+  onComponent?: ComponentListener,
+) => Promise<Omit<SourcesToComponents<TSources>, TExclude>> {
   const includedSources = Object.keys(sources).filter((sourceKey) => excludes(excludeSources, sourceKey)) as Exclude<
     keyof TSources,
     TExclude
   >[]
-  // Using `mapWithBreaks` allows asynchronous sources to complete between synchronous sources
+  // Using `runScheduled` allows asynchronous sources to complete between synchronous sources
   // and measure the duration correctly
   const sourceGettersPromise = suppressUnhandledRejectionWarning(
-    mapWithBreaks(includedSources, (sourceKey) => loadSource(sources[sourceKey], sourceOptions), loopReleaseInterval),
+    runScheduled(
+      includedSources as string[],
+      sourceSchedulings,
+      (sourceKey) => loadSource(sources[sourceKey], sourceOptions, sourceTimeouts[sourceKey], hooks, sourceKey),
+      loopReleaseInterval,
+      signal,
+    ),
   )
 
-  return async function getComponents() {
-    const sourceGetters = await sourceGettersPromise
+  return async function getComponents(budget = Infinity, getSignal?: AbortSignal, onComponent?: ComponentListener) {
+    const deadline = Date.now() + budget
+    throwIfAborted(getSignal)
+    const sourceGetters = await abortable(sourceGettersPromise, getSignal)
+    // The sources may complete loading before the abort, but their components may be affected by the abort
+    throwIfAborted(signal)
 
-    const componentPromises = await mapWithBreaks(
-      sourceGetters,
-      (sourceGetter) => suppressUnhandledRejectionWarning(sourceGetter()),
-      loopReleaseInterval,
-    )
+    const [collectionSignal, stopWatchingSignals] = combineSignals(signal, getSignal)
+    let componentArray: unknown[]
+    try {
+      const componentPromises = await mapWithBreaks(
+        sourceGetters,
+        (sourceGetter, index) => {
+          const componentPromise = suppressUnhandledRejectionWarning(sourceGetter(deadline))
+          if (onComponent) {
+            const sourceKey = includedSources[index] as string
+            componentPromise.then(
+              (component) => {
+                if (!collectionSignal?.aborted) {
+                  callHook((event: typeof component) => onComponent(sourceKey, event), component)
+                }
+              },
+              // The error reaches the caller through `Promise.all` below
+              () => undefined,
+            )
+          }
+          return componentPromise
+        },
+        loopReleaseInterval,
+        collectionSignal,
+      )
+      componentArray = await abortable(Promise.all(componentPromises), collectionSignal)
+    } finally {
+      stopWatchingSignals()
+    }
 
-    const componentArray = await Promise.all(componentPromises)
     // Keeping the component keys order the same as the source keys order
     const components = {} as Omit<SourcesToComponents<TSources>, TExclude>
     for (let index = 0; index < includedSources.length; ++index) {
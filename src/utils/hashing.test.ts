@@ -1,4 +1,4 @@
-import { x64hash128 } from './hashing'
+import { hammingDistance, simHash64, x64hash128 } from './hashing'
 
 const longText =
   'Sociosqu libero in, gravida curae lobortis imperdiet. Elit odio consequat magna, molestie adipiscing phasellus, ' +
@@ -50,3 +50,47 @@ describe('Murmur3', () => {
     expect(x64hash128(inputGreaterThan2Chunks)).toBe('d49c261c833b671870b471c42df4dbf0')
   })
 })
+
+describe('SimHash', () => {
+  const features: Array<[string, number]> = [
+    ['platform:MacIntel', 1],
+    ['fonts:Arial,Menlo', 6],
+    ['timezone:Europe/Berlin', 2],
+    ['audio:124.04', 4],
+    ['screenResolution:1920,1080', 2],
+  ]
+
+  it('makes 64 bit hash', () => {
+    expect(simHash64(features)).toMatch(/^[0-9a-f]{16}$/)
+    expect(simHash64(features)).toBe(simHash64([...features].reverse()))
+    expect(simHash64([])).toBe('0000000000000000')
+  })
+
+  it('changes a few bits when a light feature changes', () => {
+    const hash = simHash64(features)
+    const slightlyChangedHash = simHash64([...features.slice(1), ['platform:Win32', 1]])
+    const completelyChangedHash = simHash64([
+      ['platform:Win32', 1],
+      ['fonts:Arial', 6],
+    ])
+    expect(hammingDistance(hash, slightlyChangedHash)).toBeLessThan(hammingDistance(hash, completelyChangedHash))
+  })
+
+  it('ignores features with zero weight', () => {
+    expect(simHash64([...features, ['foo:bar', 0]])).toBe(simHash64(features))
+  })
+})
+
+describe('hammingDistance', () => {
+  it('counts different bits', () => {
+    expect(hammingDistance('0000', '0000')).toBe(0)
+    expect(hammingDistance('00f0', '0000')).toBe(4)
+    expect(hammingDistance('a5', '5a')).toBe(8)
+    expect(hammingDistance('0001', '0003')).toBe(1)
+  })
+
+  it('throws on invalid input', () => {
+    expect(() => hammingDistance('00', '000')).toThrowError(TypeError)
+    expect(() => hammingDistance('0g', '00')).toThrowError(TypeError)
+  })
+})
@@ -299,3 +299,55 @@ export function x64hash128(input: string, seed?: number): string {
     ('00000000' + (h2[1] >>> 0).toString(16)).slice(-8)
   )
 }
+
+/**
+ * Makes a 64 bit SimHash of the given weighted features, as an unsigned hex.
+ * Unlike a regular hash, similar feature sets produce similar hashes:
+ * the more weight the differing features have, the more bits differ.
+ * Use `hammingDistance` to compare the hashes. Only the hashes with the same seed are comparable.
+ */
+export function simHash64(features: ReadonlyArray<readonly [feature: string, weight: number]>, seed?: number): string {
+  const bitSums = new Array<number>(64).fill(0)
+
+  for (const [feature, weight] of features) {
+    // The first 64 bits of the 128 bit hash are enough
+    const featureHash = x64hash128(feature, seed).slice(0, 16)
+    for (let i = 0; i < 64; ++i) {
+      const nibble = parseInt(featureHash[i >> 2], 16)
+      bitSums[i] += (nibble >> (3 - (i & 3))) & 1 ? weight : -weight
+    }
+  }
+
+  let result = ''
+  for (let i = 0; i < 64; i += 4) {
+    let nibble = 0
+    for (let j = 0; j < 4; ++j) {
+      nibble = (nibble << 1) | (bitSums[i + j] > 0 ? 1 : 0)
+    }
+    result += nibble.toString(16)
+  }
+  return result
+}
+
+/**
+ * Counts the different bits of 2 hashes of the same length given as hex strings
+ */
+export function hammingDistance(hash1: string, hash2: string): number {
+  if (hash1.length !== hash2.length) {
+    throw new TypeError('The hashes have different lengths')
+  }
+
+  let distance = 0
+  for (let i = 0; i < hash1.length; ++i) {
+    const digit1 = parseInt(hash1[i], 16)
+    const digit2 = parseInt(hash2[i], 16)
+    if (isNaN(digit1) || isNaN(digit2)) {
+      throw new TypeError('The hashes must be hex strings')
+    }
+    let differentBits = digit1 ^ digit2
+    for (; differentBits; differentBits >>= 1) {
+      distance += differentBits & 1
+    }
+  }
+  return distance
+}
@@ -12,6 +12,18 @@ export function errorToObject(error: Readonly<Error>): Record<string, unknown> {
   }
 }
 
+/**
+ * Turns a result of `errorToObject` (or any other object with error fields) back to an error
+ */
+export function objectToError(errorObject: unknown): Error {
+  const { name, message } = (errorObject || {}) as Partial<Record<'name' | 'message', unknown>>
+  const error = new Error(typeof message === 'string' ? message : undefined)
+  if (typeof name === 'string') {
+    error.name = name
+  }
+  return error
+}
+
 export function isFunctionNative(func: (...args: unknown[]) => unknown): boolean {
   return /^function\s.*?\{\s*\[native code]\s*}$/.test(String(func))
 }
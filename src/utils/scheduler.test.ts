@@ -0,0 +1,100 @@
+import { withMockProperties } from '../../tests/utils'
+import { sources, sourceScheduling } from '../sources'
+import { orderTasks, runScheduled } from './scheduler'
+
+describe('Scheduler', () => {
+  describe('orderTasks', () => {
+    it('keeps the order by default', () => {
+      expect(orderTasks(['a', 'b', 'c'], {})).toEqual(['a', 'b', 'c'])
+    })
+
+    it('sorts by priority', () => {
+      expect(orderTasks(['a', 'b', 'c', 'd'], { c: { priority: 1 }, d: { priority: 2 }, a: { priority: -1 } })).toEqual(
+        ['d', 'c', 'b', 'a'],
+      )
+    })
+
+    it('respects dependencies', () => {
+      const order = orderTasks(['a', 'b', 'c', 'd'], {
+        a: { after: ['c'] },
+        b: { priority: 1, after: ['d', 'unknown'] },
+        c: { after: ['d'] },
+      })
+      expect(order).toEqual(['d', 'b', 'c', 'a'])
+    })
+
+    it('throws on circular dependencies', () => {
+      expect(() => orderTasks(['a', 'b', 'c'], { a: { after: ['b'] }, b: { after: ['a'] } })).toThrowError(/circular/)
+    })
+
+    it('orders the built-in sources', () => {
+      const order = orderTasks(Object.keys(sources), sourceScheduling)
+      expect(order.length).toBe(Object.keys(sources).length)
+      expect(order.indexOf('webGlBasics')).toBeGreaterThan(order.indexOf('canvas'))
+      expect(order.indexOf('webGlExtensions')).toBeGreaterThan(order.indexOf('canvas'))
+      expect(order.indexOf('fonts')).toBeLessThan(order.indexOf('platform'))
+    })
+  })
+
+  describe('runScheduled', () => {
+    it('runs tasks in order and returns results in the original order', async () => {
+      const runOrder: string[] = []
+      const results = await runScheduled(['a', 'b', 'c'], { c: { priority: 1 }, b: { touchesDom: false } }, (key) => {
+        runOrder.push(key)
+        return key.toUpperCase()
+      })
+      expect(runOrder).toEqual(['c', 'a', 'b'])
+      expect(results).toEqual(['A', 'B', 'C'])
+    })
+
+    it('releases the event loop before costly tasks', async () => {
+      const postTask = jasmine.createSpy('postTask').and.callFake((callback: () => void) => Promise.resolve(callback()))
+      const runOrder: string[] = []
+      await withMockProperties(window, { scheduler: { value: { postTask } } }, () =>
+        runScheduled(['a', 'b', 'c', 'd'], { b: { cost: 1000 }, d: { cost: 1000 } }, (key) => {
+          runOrder.push(`${key}${postTask.calls.count()}`)
+        }),
+      )
+      expect(runOrder).toEqual(['a0', 'b1', 'c1', 'd2'])
+    })
+
+    it("doesn't wait for an idle period before every task when the idle callback times out", async () => {
+      const requestIdleCallback = jasmine
+        .createSpy('requestIdleCallback')
+        .and.callFake((callback: IdleRequestCallback) =>
+          setTimeout(() => callback({ didTimeout: true, timeRemaining: () => 0 })),
+        )
+      const runOrder: string[] = []
+      await withMockProperties(window, { requestIdleCallback: { value: requestIdleCallback } }, () =>
+        runScheduled(
+          ['a', 'b', 'c', 'd'],
+          {
+            a: { touchesDom: false, cost: 1000 },
+            b: { touchesDom: false, cost: 1 },
+            c: { touchesDom: false, cost: 1 },
+            d: { touchesDom: false, cost: 1 },
+          },
+          (key) => {
+            runOrder.push(`${key}${requestIdleCallback.calls.count()}`)
+          },
+        ),
+      )
+      expect(runOrder).toEqual(['a1', 'b1', 'c1', 'd1'])
+    })
+
+    it('stops when the signal aborts', async () => {
+      const controller = new AbortController()
+      const runKeys: string[] = []
+      const resultPromise = runScheduled(
+        ['a', 'b'],
+        { b: { cost: 1000 } },
+        (key) => runKeys.push(key),
+        undefined,
+        controller.signal,
+      )
+      controller.abort()
+      await expectAsync(resultPromise).toBeRejectedWith(jasmine.objectContaining({ name: 'AbortError' }))
+      expect(runKeys).toEqual(['a'])
+    })
+  })
+})
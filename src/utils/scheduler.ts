@@ -0,0 +1,143 @@
+import { releaseEventLoop, throwIfAborted } from './async'
+
+/**
+ * Tells the scheduler how to run a task (e.g. loading an entropy source)
+ */
+export interface TaskScheduling {
+  /**
+   * The estimated duration of the synchronous part of the task in milliseconds.
+   * The scheduler releases the event loop before a task that doesn't fit the remaining time of the current slice.
+   * @default 0
+   */
+  cost?: number
+  /**
+   * The tasks with higher priority run earlier, unless it contradicts the `after` requirement
+   * @default 0
+   */
+  priority?: number
+  /**
+   * The keys of the tasks that must run before this task. The keys of the tasks that don't run are ignored.
+   */
+  after?: readonly string[]
+  /**
+   * Whether the task reads or changes the DOM.
+   * Such tasks never run in idle callbacks because changing the DOM there causes unexpected layouts.
+   * @default true
+   */
+  touchesDom?: boolean
+}
+
+export type TaskSchedulings = Readonly<Partial<Record<string, Readonly<TaskScheduling>>>>
+
+interface Scheduler {
+  postTask(
+    callback: () => void,
+    options?: { priority?: 'user-blocking' | 'user-visible' | 'background' },
+  ): Promise<void>
+}
+
+/**
+ * Sorts the tasks in the order they must run: respecting the `after` requirements, then by priority,
+ * then in the given order.
+ */
+export function orderTasks<TKey extends string>(keys: readonly TKey[], schedulings: TaskSchedulings): TKey[] {
+  const remainingKeys = [...keys]
+  const orderedKeys: TKey[] = []
+
+  const isReady = (key: TKey) =>
+    (schedulings[key]?.after || []).every((dependency) => !remainingKeys.includes(dependency as TKey))
+
+  while (remainingKeys.length) {
+    let nextIndex = -1
+    for (let i = 0; i < remainingKeys.length; ++i) {
+      if (
+        isReady(remainingKeys[i]) &&
+        (nextIndex === -1 ||
+          getPriority(schedulings, remainingKeys[i]) > getPriority(schedulings, remainingKeys[nextIndex]))
+      ) {
+        nextIndex = i
+      }
+    }
+    if (nextIndex === -1) {
+      throw new Error(`The tasks have circular dependencies: ${remainingKeys.join(', ')}`)
+    }
+    orderedKeys.push(...remainingKeys.splice(nextIndex, 1))
+  }
+
+  return orderedKeys
+}
+
+/**
+ * Runs the tasks in the order of `orderTasks` and releases the event loop between them, so that the page stays
+ * responsive. The tasks that don't touch the DOM run during idle periods when the browser supports
+ * `requestIdleCallback`. The other tasks run in separate macrotasks (made by `scheduler.postTask` when available).
+ *
+ * The results are returned in the order of the given keys. When the signal aborts, the remaining tasks don't run,
+ * and the returned promise rejects with an `AbortError`.
+ */
+export async function runScheduled<TKey extends string, TResult>(
+  keys: readonly TKey[],
+  schedulings: TaskSchedulings,
+  runTask: (key: TKey) => TResult,
+  loopReleaseInterval = 16,
+  signal?: AbortSignal,
+): Promise<TResult[]> {
+  const results = Array<TResult>(keys.length)
+  let sliceEnd = Date.now() + loopReleaseInterval
+  let isIdleSlice = false
+
+  for (const key of orderTasks(keys, schedulings)) {
+    throwIfAborted(signal)
+    const { cost = 0, touchesDom = true } = schedulings[key] || {}
+
+    if (Date.now() + cost >= sliceEnd || (touchesDom && isIdleSlice)) {
+      if (!touchesDom && isIdleCallbackSupported()) {
+        const idleTime = await waitForIdlePeriod(loopReleaseInterval * 4)
+        isIdleSlice = true
+        // The idle time is 0 when the callback fires by the timeout. A slice shorter than the interval would make every
+        // following task wait for another idle period.
+        sliceEnd = Date.now() + Math.max(idleTime, loopReleaseInterval)
+      } else {
+        await postTask()
+        isIdleSlice = false
+        sliceEnd = Date.now() + loopReleaseInterval
+      }
+      throwIfAborted(signal)
+    }
+
+    // A task runs right after a release even if it doesn't fit the slice, otherwise it would never run
+    results[keys.indexOf(key)] = runTask(key)
+  }
+
+  return results
+}
+
+function getPriority(schedulings: TaskSchedulings, key: string): number {
+  return schedulings[key]?.priority || 0
+}
+
+function isIdleCallbackSupported(): boolean {
+  const { requestIdleCallback } = window
+  return !!requestIdleCallback
+}
+
+/**
+ * Resolves with the duration (milliseconds) of the idle period
+ */
+function waitForIdlePeriod(timeout: number): Promise<number> {
+  // `call(window,` prevents an "Illegal invocation" error, see `requestIdleCallbackIfAvailable`
+  return new Promise((resolve) =>
+    window.requestIdleCallback.call(window, (deadline) => resolve(deadline.timeRemaining()), { timeout }),
+  )
+}
+
+/**
+ * Releases the event loop and resolves in a new macrotask
+ */
+function postTask(): Promise<void> {
+  const { scheduler } = window as { scheduler?: Partial<Scheduler> }
+  if (scheduler?.postTask) {
+    return scheduler.postTask(() => undefined, { priority: 'user-visible' })
+  }
+  return releaseEventLoop()
+}
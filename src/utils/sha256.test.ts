@@ -0,0 +1,31 @@
+import { getUTF8Bytes } from './data'
+import { bytesToHex, hmacSha256, sha256 } from './sha256'
+
+describe('SHA-256', () => {
+  it('makes digest', () => {
+    expect(bytesToHex(sha256(getUTF8Bytes('')))).toBe(
+      'e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855',
+    )
+    expect(bytesToHex(sha256(getUTF8Bytes('abc')))).toBe(
+      'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad',
+    )
+    expect(bytesToHex(sha256(getUTF8Bytes('abcdbcdecdefdefgefghfghighijhijkijkljklmklmnlmnomnopnopq')))).toBe(
+      '248d6a61d20638b8e5c026930c3e6039a33ce45964ff2167f6ecedd419db06c1',
+    )
+  })
+
+  it('makes HMAC', () => {
+    // Test cases 2 and 6 from RFC 4231
+    expect(bytesToHex(hmacSha256(getUTF8Bytes('Jefe'), getUTF8Bytes('what do ya want for nothing?')))).toBe(
+      '5bdcc146bf60754e6a042426089575c75a003f089d2739839dec58b964ec3843',
+    )
+    expect(
+      bytesToHex(
+        hmacSha256(
+          new Uint8Array(131).fill(0xaa),
+          getUTF8Bytes('Test Using Larger Than Block-Size Key - Hash Key First'),
+        ),
+      ),
+    ).toBe('60e431591ee0b67f0d8a26aacbf5b77f8e0bc6213728c5140546040f0ee37f54')
+  })
+})
@@ -0,0 +1,146 @@
+/*
+ * SHA-256 and HMAC-SHA256 according to FIPS 180-4 and RFC 2104.
+ * A synchronous implementation that works in any environment, unlike SubtleCrypto.
+ * The asynchronous functions use SubtleCrypto when it's available because it's faster.
+ */
+
+const roundConstants = new Uint32Array([
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5, 0xd807aa98,
+  0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174, 0xe49b69c1, 0xefbe4786,
+  0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da, 0x983e5152, 0xa831c66d, 0xb00327c8,
+  0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967, 0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13,
+  0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85, 0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819,
+  0xd6990624, 0xf40e3585, 0x106aa070, 0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a,
+  0x5b9cca4f, 0x682e6ff3, 0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7,
+  0xc67178f2,
+])
+
+const initialHash = [0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19]
+
+const blockSize = 64
+
+function rotateRight(value: number, bits: number): number {
+  return (value >>> bits) | (value << (32 - bits))
+}
+
+/**
+ * Calculates the SHA-256 digest (32 bytes) of the given bytes
+ */
+export function sha256(message: Uint8Array): Uint8Array {
+  // Padding: a single 1 bit, zeros, and the message length in bits as a 64-bit big-endian number
+  const paddedLength = Math.ceil((message.length + 9) / blockSize) * blockSize
+  const padded = new Uint8Array(paddedLength)
+  padded.set(message)
+  padded[message.length] = 0x80
+  const paddedView = new DataView(padded.buffer)
+  paddedView.setUint32(paddedLength - 8, Math.floor(message.length / 0x20000000))
+  paddedView.setUint32(paddedLength - 4, message.length << 3)
+
+  const hash = new Uint32Array(initialHash)
+  const words = new Uint32Array(64)
+
+  for (let offset = 0; offset < paddedLength; offset += blockSize) {
+    for (let i = 0; i < 16; ++i) {
+      words[i] = paddedView.getUint32(offset + i * 4)
+    }
+    for (let i = 16; i < 64; ++i) {
+      const w15 = words[i - 15]
+      const w2 = words[i - 2]
+      const s0 = rotateRight(w15, 7) ^ rotateRight(w15, 18) ^ (w15 >>> 3)
+      const s1 = rotateRight(w2, 17) ^ rotateRight(w2, 19) ^ (w2 >>> 10)
+      words[i] = words[i - 16] + s0 + words[i - 7] + s1
+    }
+
+    let [a, b, c, d, e, f, g, h] = hash
+    for (let i = 0; i < 64; ++i) {
+      const s1 = rotateRight(e, 6) ^ rotateRight(e, 11) ^ rotateRight(e, 25)
+      const choice = (e & f) ^ (~e & g)
+      const temp1 = (h + s1 + choice + roundConstants[i] + words[i]) | 0
+      const s0 = rotateRight(a, 2) ^ rotateRight(a, 13) ^ rotateRight(a, 22)
+      const majority = (a & b) ^ (a & c) ^ (b & c)
+      const temp2 = (s0 + majority) | 0
+      h = g
+      g = f
+      f = e
+      e = (d + temp1) | 0
+      d = c
+      c = b
+      b = a
+      a = (temp1 + temp2) | 0
+    }
+
+    hash[0] += a
+    hash[1] += b
+    hash[2] += c
+    hash[3] += d
+    hash[4] += e
+    hash[5] += f
+    hash[6] += g
+    hash[7] += h
+  }
+
+  const digest = new Uint8Array(32)
+  const digestView = new DataView(digest.buffer)
+  for (let i = 0; i < 8; ++i) {
+    digestView.setUint32(i * 4, hash[i])
+  }
+  return digest
+}
+
+/**
+ * Calculates the HMAC-SHA256 (32 bytes) of the message
+ */
+export function hmacSha256(key: Uint8Array, message: Uint8Array): Uint8Array {
+  const blockKey = new Uint8Array(blockSize)
+  blockKey.set(key.length > blockSize ? sha256(key) : key)
+
+  const innerMessage = new Uint8Array(blockSize + message.length)
+  const outerMessage = new Uint8Array(blockSize + 32)
+  for (let i = 0; i < blockSize; ++i) {
+    innerMessage[i] = blockKey[i] ^ 0x36
+    outerMessage[i] = blockKey[i] ^ 0x5c
+  }
+  innerMessage.set(message, blockSize)
+  outerMessage.set(sha256(innerMessage), blockSize)
+
+  return sha256(outerMessage)
+}
+
+/**
+ * The same as `sha256` but uses SubtleCrypto when available
+ */
+export async function sha256Async(message: Uint8Array): Promise<Uint8Array> {
+  const subtle = getSubtleCrypto()
+  return subtle ? new Uint8Array(await subtle.digest('SHA-256', message)) : sha256(message)
+}
+
+/**
+ * The same as `hmacSha256` but uses SubtleCrypto when available
+ */
+export async function hmacSha256Async(key: Uint8Array, message: Uint8Array): Promise<Uint8Array> {
+  const subtle = getSubtleCrypto()
+  if (subtle) {
+    try {
+      const cryptoKey = await subtle.importKey('raw', key, { name: 'HMAC', hash: 'SHA-256' }, false, ['sign'])
+      return new Uint8Array(await subtle.sign('HMAC', cryptoKey, message))
+    } catch (error) {
+      // SubtleCrypto rejects some keys (e.g. empty), the fallback below handles them
+    }
+  }
+  return hmacSha256(key, message)
+}
+
+/**
+ * SubtleCrypto is missing in insecure contexts (e.g. pages served via HTTP) and old environments
+ */
+function getSubtleCrypto(): SubtleCrypto | undefined {
+  return typeof crypto === 'undefined' ? undefined : crypto.subtle
+}
+
+export function bytesToHex(bytes: Uint8Array): string {
+  let hex = ''
+  for (let i = 0; i < bytes.length; ++i) {
+    hex += (bytes[i] < 16 ? '0' : '') + bytes[i].toString(16)
+  }
+  return hex
+}
@@ -0,0 +1,21 @@
+import { getUTF8Bytes } from './data'
+import { bytesToHex } from './sha256'
+import { sha512 } from './sha512'
+
+describe('SHA-512', () => {
+  it('makes digest', () => {
+    expect(bytesToHex(sha512(getUTF8Bytes('')))).toBe(
+      'cf83e1357eefb8bdf1542850d66d8007d620e4050b5715dc83f4a921d36ce9ce' +
+        '47d0d13c5d85f2b0ff8318d2877eec2f63b931bd47417a81a538327af927da3e',
+    )
+    expect(bytesToHex(sha512(getUTF8Bytes('abc')))).toBe(
+      'ddaf35a193617abacc417349ae20413112e6fa4e89a97ea20a9eeee64b55d39a' +
+        '2192992a274fc1a836ba3c23a3feebbd454d4423643ce80e2a9ac94fa54ca49f',
+    )
+    // Several blocks
+    expect(bytesToHex(sha512(getUTF8Bytes('a'.repeat(1000))))).toBe(
+      '67ba5535a46e3f86dbfbed8cbbaf0125c76ed549ff8b0b9e03e0c88cf90fa634' +
+        'fa7b12b47d77b694de488ace8d9a65967dc96df599727d3292a8d9d447709c97',
+    )
+  })
+})
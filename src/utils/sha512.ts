@@ -0,0 +1,132 @@
+/*
+ * SHA-512 according to FIPS 180-4, required by Ed25519.
+ * A synchronous implementation that works in any environment. JavaScript has no 64-bit integers (BigInt isn't
+ * available in the supported browsers), so every 64-bit word is a pair of 32-bit words: the high one goes first.
+ */
+
+const roundConstants = new Uint32Array([
+  0x428a2f98, 0xd728ae22, 0x71374491, 0x23ef65cd, 0xb5c0fbcf, 0xec4d3b2f, 0xe9b5dba5, 0x8189dbbc, 0x3956c25b,
+  0xf348b538, 0x59f111f1, 0xb605d019, 0x923f82a4, 0xaf194f9b, 0xab1c5ed5, 0xda6d8118, 0xd807aa98, 0xa3030242,
+  0x12835b01, 0x45706fbe, 0x243185be, 0x4ee4b28c, 0x550c7dc3, 0xd5ffb4e2, 0x72be5d74, 0xf27b896f, 0x80deb1fe,
+  0x3b1696b1, 0x9bdc06a7, 0x25c71235, 0xc19bf174, 0xcf692694, 0xe49b69c1, 0x9ef14ad2, 0xefbe4786, 0x384f25e3,
+  0x0fc19dc6, 0x8b8cd5b5, 0x240ca1cc, 0x77ac9c65, 0x2de92c6f, 0x592b0275, 0x4a7484aa, 0x6ea6e483, 0x5cb0a9dc,
+  0xbd41fbd4, 0x76f988da, 0x831153b5, 0x983e5152, 0xee66dfab, 0xa831c66d, 0x2db43210, 0xb00327c8, 0x98fb213f,
+  0xbf597fc7, 0xbeef0ee4, 0xc6e00bf3, 0x3da88fc2, 0xd5a79147, 0x930aa725, 0x06ca6351, 0xe003826f, 0x14292967,
+  0x0a0e6e70, 0x27b70a85, 0x46d22ffc, 0x2e1b2138, 0x5c26c926, 0x4d2c6dfc, 0x5ac42aed, 0x53380d13, 0x9d95b3df,
+  0x650a7354, 0x8baf63de, 0x766a0abb, 0x3c77b2a8, 0x81c2c92e, 0x47edaee6, 0x92722c85, 0x1482353b, 0xa2bfe8a1,
+  0x4cf10364, 0xa81a664b, 0xbc423001, 0xc24b8b70, 0xd0f89791, 0xc76c51a3, 0x0654be30, 0xd192e819, 0xd6ef5218,
+  0xd6990624, 0x5565a910, 0xf40e3585, 0x5771202a, 0x106aa070, 0x32bbd1b8, 0x19a4c116, 0xb8d2d0c8, 0x1e376c08,
+  0x5141ab53, 0x2748774c, 0xdf8eeb99, 0x34b0bcb5, 0xe19b48a8, 0x391c0cb3, 0xc5c95a63, 0x4ed8aa4a, 0xe3418acb,
+  0x5b9cca4f, 0x7763e373, 0x682e6ff3, 0xd6b2b8a3, 0x748f82ee, 0x5defb2fc, 0x78a5636f, 0x43172f60, 0x84c87814,
+  0xa1f0ab72, 0x8cc70208, 0x1a6439ec, 0x90befffa, 0x23631e28, 0xa4506ceb, 0xde82bde9, 0xbef9a3f7, 0xb2c67915,
+  0xc67178f2, 0xe372532b, 0xca273ece, 0xea26619c, 0xd186b8c7, 0x21c0c207, 0xeada7dd6, 0xcde0eb1e, 0xf57d4f7f,
+  0xee6ed178, 0x06f067aa, 0x72176fba, 0x0a637dc5, 0xa2c898a6, 0x113f9804, 0xbef90dae, 0x1b710b35, 0x131c471b,
+  0x28db77f5, 0x23047d84, 0x32caab7b, 0x40c72493, 0x3c9ebe0a, 0x15c9bebc, 0x431d67c4, 0x9c100d4c, 0x4cc5d4be,
+  0xcb3e42b6, 0x597f299c, 0xfc657e2a, 0x5fcb6fab, 0x3ad6faec, 0x6c44198c, 0x4a475817,
+])
+
+const initialHash = [
+  0x6a09e667, 0xf3bcc908, 0xbb67ae85, 0x84caa73b, 0x3c6ef372, 0xfe94f82b, 0xa54ff53a, 0x5f1d36f1, 0x510e527f,
+  0xade682d1, 0x9b05688c, 0x2b3e6c1f, 0x1f83d9ab, 0xfb41bd6b, 0x5be0cd19, 0x137e2179,
+]
+
+const blockSize = 128
+
+const twoPower32 = 0x100000000
+
+/**
+ * The high word of a 64-bit word rotated right. The bit count must be between 1 and 63 except 32.
+ */
+function rotateRightHigh(high: number, low: number, bits: number): number {
+  return bits < 32 ? (high >>> bits) | (low << (32 - bits)) : (low >>> (bits - 32)) | (high << (64 - bits))
+}
+
+/**
+ * The low word of a 64-bit word rotated right. The bit count must be between 1 and 63 except 32.
+ */
+function rotateRightLow(high: number, low: number, bits: number): number {
+  return bits < 32 ? (low >>> bits) | (high << (32 - bits)) : (high >>> (bits - 32)) | (low << (64 - bits))
+}
+
+/**
+ * Calculates the SHA-512 digest (64 bytes) of the given bytes
+ */
+export function sha512(message: Uint8Array): Uint8Array {
+  // Padding: a single 1 bit, zeros, and the message length in bits as a 128-bit big-endian number
+  const paddedLength = Math.ceil((message.length + 17) / blockSize) * blockSize
+  const padded = new Uint8Array(paddedLength)
+  padded.set(message)
+  padded[message.length] = 0x80
+  const paddedView = new DataView(padded.buffer)
+  paddedView.setUint32(paddedLength - 8, Math.floor(message.length / 0x20000000))
+  paddedView.setUint32(paddedLength - 4, message.length << 3)
+
+  const hash = new Uint32Array(initialHash)
+  const words = new Uint32Array(160)
+  // The working variables a, b, c, d, e, f, g, h
+  const state = new Uint32Array(16)
+
+  for (let offset = 0; offset < paddedLength; offset += blockSize) {
+    for (let i = 0; i < 32; ++i) {
+      words[i] = paddedView.getUint32(offset + i * 4)
+    }
+    for (let i = 32; i < 160; i += 2) {
+      const w15High = words[i - 30]
+      const w15Low = words[i - 29]
+      const w2High = words[i - 4]
+      const w2Low = words[i - 3]
+      const s0High = rotateRightHigh(w15High, w15Low, 1) ^ rotateRightHigh(w15High, w15Low, 8) ^ (w15High >>> 7)
+      const s0Low =
+        rotateRightLow(w15High, w15Low, 1) ^ rotateRightLow(w15High, w15Low, 8) ^ ((w15Low >>> 7) | (w15High << 25))
+      const s1High = rotateRightHigh(w2High, w2Low, 19) ^ rotateRightHigh(w2High, w2Low, 61) ^ (w2High >>> 6)
+      const s1Low =
+        rotateRightLow(w2High, w2Low, 19) ^ rotateRightLow(w2High, w2Low, 61) ^ ((w2Low >>> 6) | (w2High << 26))
+      const low = words[i - 31] + (s0Low >>> 0) + words[i - 13] + (s1Low >>> 0)
+      words[i] = words[i - 32] + s0High + words[i - 14] + s1High + Math.floor(low / twoPower32)
+      words[i + 1] = low
+    }
+
+    state.set(hash)
+    for (let i = 0; i < 160; i += 2) {
+      const [aHigh, aLow, bHigh, bLow, cHigh, cLow, , , eHigh, eLow, fHigh, fLow, gHigh, gLow, hHigh, hLow] = state
+      const sum1High =
+        rotateRightHigh(eHigh, eLow, 14) ^ rotateRightHigh(eHigh, eLow, 18) ^ rotateRightHigh(eHigh, eLow, 41)
+      const sum1Low =
+        rotateRightLow(eHigh, eLow, 14) ^ rotateRightLow(eHigh, eLow, 18) ^ rotateRightLow(eHigh, eLow, 41)
+      const choiceHigh = (eHigh & fHigh) ^ (~eHigh & gHigh)
+      const choiceLow = (eLow & fLow) ^ (~eLow & gLow)
+      const temp1Low = hLow + (sum1Low >>> 0) + (choiceLow >>> 0) + roundConstants[i + 1] + words[i + 1]
+      const temp1High = hHigh + sum1High + choiceHigh + roundConstants[i] + words[i] + Math.floor(temp1Low / twoPower32)
+      const sum0High =
+        rotateRightHigh(aHigh, aLow, 28) ^ rotateRightHigh(aHigh, aLow, 34) ^ rotateRightHigh(aHigh, aLow, 39)
+      const sum0Low =
+        rotateRightLow(aHigh, aLow, 28) ^ rotateRightLow(aHigh, aLow, 34) ^ rotateRightLow(aHigh, aLow, 39)
+      const majorityHigh = (aHigh & bHigh) ^ (aHigh & cHigh) ^ (bHigh & cHigh)
+      const majorityLow = (aLow & bLow) ^ (aLow & cLow) ^ (bLow & cLow)
+      const temp2Low = (sum0Low >>> 0) + (majorityLow >>> 0)
+      const temp2High = sum0High + majorityHigh + Math.floor(temp2Low / twoPower32)
+
+      // h = g, g = f, f = e, e = d + temp1, d = c, c = b, b = a, a = temp1 + temp2
+      state.copyWithin(2, 0, 14)
+      const eNewLow = state[9] + (temp1Low % twoPower32)
+      state[8] = state[8] + temp1High + Math.floor(eNewLow / twoPower32)
+      state[9] = eNewLow
+      const aNewLow = (temp1Low % twoPower32) + (temp2Low % twoPower32)
+      state[0] = temp1High + temp2High + Math.floor(aNewLow / twoPower32)
+      state[1] = aNewLow
+    }
+
+    for (let i = 0; i < 16; i += 2) {
+      const low = hash[i + 1] + state[i + 1]
+      hash[i] = hash[i] + state[i] + Math.floor(low / twoPower32)
+      hash[i + 1] = low
+    }
+  }
+
+  const digest = new Uint8Array(64)
+  const digestView = new DataView(digest.buffer)
+  for (let i = 0; i < 16; ++i) {
+    digestView.setUint32(i * 4, hash[i])
+  }
+  return digest
+}
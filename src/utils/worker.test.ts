@@ -0,0 +1,65 @@
+import { withMockProperties } from '../../tests/utils'
+import { sources, workerSources } from '../sources'
+import { runInWorker } from './worker'
+
+describe('runInWorker', () => {
+  it('runs functions in a worker', async () => {
+    const components = await runInWorker({
+      foo: () => typeof window,
+      bar: function () {
+        throw new TypeError('Fail')
+      },
+    })
+    expect(components).toEqual({
+      foo: { value: 'undefined', duration: jasmine.any(Number) },
+      bar: { error: jasmine.any(Error), duration: jasmine.any(Number) },
+    })
+    expect(components && 'error' in components.bar && components.bar.error).toEqual(
+      jasmine.objectContaining({ name: 'TypeError', message: 'Fail' }),
+    )
+  })
+
+  it('resolves with nothing when workers are forbidden', async () => {
+    await withMockProperties(
+      window,
+      {
+        Worker: {
+          value: function () {
+            throw new DOMException('Refused to create a worker', 'SecurityError')
+          },
+        },
+      },
+      async () => {
+        expect(await runInWorker({ foo: () => 1 })).toBeUndefined()
+      },
+    )
+  })
+
+  it('resolves with nothing when the signal aborts during the call', async () => {
+    const controller = new AbortController()
+    const componentsPromise = runInWorker({ foo: () => 1 }, undefined, controller.signal)
+    controller.abort()
+    expect(await componentsPromise).toBeUndefined()
+  })
+
+  it('resolves with nothing when the signal has aborted before the call', async () => {
+    const controller = new AbortController()
+    controller.abort()
+    const workerSpy = spyOn(window, 'Worker').and.callThrough()
+    expect(await runInWorker({ foo: () => 1 }, undefined, controller.signal)).toBeUndefined()
+    expect(workerSpy).not.toHaveBeenCalled()
+  })
+
+  it('runs the worker sources the same way as the main thread', async () => {
+    const functions: Record<string, () => unknown> = {}
+    for (const sourceKey of workerSources) {
+      functions[sourceKey] = sources[sourceKey] as () => unknown
+    }
+    const components = await runInWorker(functions)
+    for (const sourceKey of workerSources) {
+      expect(components?.[sourceKey])
+        .withContext(sourceKey)
+        .toEqual({ value: functions[sourceKey](), duration: jasmine.any(Number) })
+    }
+  })
+})
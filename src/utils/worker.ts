@@ -0,0 +1,81 @@
+import { Component } from './entropy_source'
+import { objectToError } from './misc'
+import { onAbort } from './async'
+
+/**
+ * A function that uses nothing from the outer scope, so it can be converted to a string and run in another context
+ */
+export type SelfContainedFunction = () => unknown
+
+/**
+ * Runs the self-contained functions in an inline (Blob) worker.
+ * Resolves with the components made from the function results.
+ * Resolves with `undefined` when the worker can't run, for example when CSP forbids Blob workers,
+ * or the worker doesn't respond in `timeout` milliseconds, or the signal aborts.
+ * The function results must be transferable by `postMessage`.
+ */
+export function runInWorker(
+  functions: Readonly<Record<string, SelfContainedFunction>>,
+  timeout = 1000,
+  signal?: AbortSignal,
+): Promise<Record<string, Component<unknown>> | undefined> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) {
+      resolve(undefined)
+      return
+    }
+
+    let worker: Worker
+    let workerUrl: string
+    try {
+      workerUrl = URL.createObjectURL(new Blob([makeWorkerScript(functions)], { type: 'application/javascript' }))
+      worker = new Worker(workerUrl)
+    } catch (error) {
+      // CSP violation, no Worker support, etc.
+      resolve(undefined)
+      return
+    }
+
+    // Declared before `finish` because `onAbort` may call `finish` before returning
+    let stopWatchingAbort = () => undefined as void
+    const finish = (components?: Record<string, Component<unknown>>) => {
+      clearTimeout(timeoutId)
+      stopWatchingAbort()
+      worker.terminate()
+      URL.revokeObjectURL(workerUrl)
+      resolve(components)
+    }
+
+    // The handlers are wrapped to not pass the timer and event arguments as the components
+    const timeoutId = setTimeout(() => finish(), timeout)
+    stopWatchingAbort = onAbort(signal, () => finish())
+
+    worker.onmessage = (event: MessageEvent<Record<string, Component<unknown>>>) => {
+      const components = event.data
+      for (const key of Object.keys(components)) {
+        const component = components[key]
+        if ('error' in component) {
+          component.error = objectToError(component.error)
+        }
+      }
+      finish(components)
+    }
+    // Some browsers report a CSP violation this way
+    worker.onerror = (event) => {
+      event.preventDefault()
+      finish()
+    }
+  })
+}
+
+function makeWorkerScript(functions: Readonly<Record<string, SelfContainedFunction>>): string {
+  const functionEntries = Object.keys(functions).map((key) => `${JSON.stringify(key)}:${String(functions[key])}`)
+
+  return `var f={${functionEntries.join(',')}},r={},k,s;
+for(k in f){
+s=Date.now();
+try{r[k]={value:f[k](),duration:Date.now()-s}}
+catch(e){r[k]={error:{name:e&&e.name,message:e&&e.message},duration:Date.now()-s}}
+}
+postMessage(r)`
+}
@@ -0,0 +1,38 @@
+import { xxHash128 } from './xxhash'
+
+describe('XXH3 128', () => {
+  // The expected hashes are made by the reference implementation (xxhsum -H2)
+  it('hashes short strings', () => {
+    expect(xxHash128('')).toBe('99aa06d3014798d86001c324468d497f')
+    expect(xxHash128('a')).toBe('a96faf705af16834e6c632b61e964e1f')
+    expect(xxHash128('abc')).toBe('06b05ab6733a618578af5f94892f3950')
+    expect(xxHash128('Hello')).toBe('1bfd09d1a433fb78117b4c7b1583d16d')
+    expect(xxHash128('Hello, world')).toBe('61f0632fb079b54d7386e91040cf00c3')
+    expect(xxHash128('Hello, world, hi')).toBe('222fb862f856f599030fddad11313c33')
+  })
+
+  it('hashes medium strings', () => {
+    expect(xxHash128('The quick brown fox jumps over the lazy dog')).toBe('ddd650205ca3e7fa24a1cc2e3a8a7651')
+    expect(xxHash128('abc'.repeat(40))).toBe('d006766855d4cc6dfecfb65c83c88138')
+    expect(xxHash128('abc'.repeat(70))).toBe('08023c1a2eac699e15bd11b048c6f2df')
+  })
+
+  it('hashes long strings', () => {
+    expect(xxHash128('abc'.repeat(100))).toBe('bfae835ca03aaf033d1e91bb47ef5c2f')
+    expect(xxHash128('abc'.repeat(1000))).toBe('14b47fe9925960701fa2f942314cd628')
+  })
+
+  it('hashes with a seed', () => {
+    expect(xxHash128('', 1)).toBe('d9265cc53bb2b9ae6131b78f753823cd')
+    expect(xxHash128('Hello', 0xdeadbeef)).toBe('fcc62a600e19158dac0e738b98ce5e23')
+    expect(xxHash128('Hello, world, hi', 42)).toBe('e8a21bbee66a3e33f92c46ff8de8800f')
+    expect(xxHash128('The quick brown fox jumps over the lazy dog', 42)).toBe('97fdbc584d4c698472c665da6e6d93b8')
+    expect(xxHash128('abc'.repeat(70), 42)).toBe('89a7e871f577845c111d3d3f0229120f')
+    expect(xxHash128('abc'.repeat(1000), 2 ** 40 + 12345)).toBe('19eb5213f58e9ff65244fb6019378010')
+    expect(xxHash128('abc'.repeat(1000), 0)).toBe(xxHash128('abc'.repeat(1000)))
+  })
+
+  it('hashes UTF-8 bytes', () => {
+    expect(xxHash128('Привет, мир 😀')).toBe('836cfecc9eee7291544e649c397f6cb0')
+  })
+})
@@ -0,0 +1,436 @@
+/*
+ * XXH3 128-bit hash with the default secret.
+ * Based on https://github.com/Cyan4973/xxHash/blob/dev/doc/xxhash_spec.md and the reference implementation.
+ * BigInt isn't used because the library supports browsers without it,
+ * so 64-bit numbers are represented as tuples of 32-bit numbers: [high, low].
+ */
+
+import { getUTF8Bytes } from './data'
+
+type Uint64 = readonly [high: number, low: number]
+
+const prime32_1 = 0x9e3779b1
+const prime32_2 = 0x85ebca77
+const prime32_3 = 0xc2b2ae3d
+const prime64_1: Uint64 = [0x9e3779b1, 0x85ebca87]
+const prime64_2: Uint64 = [0xc2b2ae3d, 0x27d4eb4f]
+const prime64_3: Uint64 = [0x165667b1, 0x9e3779f9]
+const prime64_4: Uint64 = [0x85ebca77, 0xc2b2ae63]
+const prime64_5: Uint64 = [0x27d4eb2f, 0x165667c5]
+const primeMx1: Uint64 = [0x16566791, 0x9e3779f9]
+const primeMx2: Uint64 = [0x9fb21c65, 0x1e98df25]
+
+// prettier-ignore
+const defaultSecret = new Uint8Array([
+  0xb8, 0xfe, 0x6c, 0x39, 0x23, 0xa4, 0x4b, 0xbe, 0x7c, 0x01, 0x81, 0x2c, 0xf7, 0x21, 0xad, 0x1c,
+  0xde, 0xd4, 0x6d, 0xe9, 0x83, 0x90, 0x97, 0xdb, 0x72, 0x40, 0xa4, 0xa4, 0xb7, 0xb3, 0x67, 0x1f,
+  0xcb, 0x79, 0xe6, 0x4e, 0xcc, 0xc0, 0xe5, 0x78, 0x82, 0x5a, 0xd0, 0x7d, 0xcc, 0xff, 0x72, 0x21,
+  0xb8, 0x08, 0x46, 0x74, 0xf7, 0x43, 0x24, 0x8e, 0xe0, 0x35, 0x90, 0xe6, 0x81, 0x3a, 0x26, 0x4c,
+  0x3c, 0x28, 0x52, 0xbb, 0x91, 0xc3, 0x00, 0xcb, 0x88, 0xd0, 0x65, 0x8b, 0x1b, 0x53, 0x2e, 0xa3,
+  0x71, 0x64, 0x48, 0x97, 0xa2, 0x0d, 0xf9, 0x4e, 0x38, 0x19, 0xef, 0x46, 0xa9, 0xde, 0xac, 0xd8,
+  0xa8, 0xfa, 0x76, 0x3f, 0xe3, 0x9c, 0x34, 0x3f, 0xf9, 0xdc, 0xbb, 0xc7, 0xc7, 0x0b, 0x4f, 0x1d,
+  0x8a, 0x51, 0xe0, 0x4b, 0xcd, 0xb4, 0x59, 0x31, 0xc8, 0x9f, 0x7e, 0xc9, 0xd9, 0x78, 0x73, 0x64,
+  0xea, 0xc5, 0xac, 0x83, 0x34, 0xd3, 0xeb, 0xc3, 0xc5, 0x81, 0xa0, 0xff, 0xfa, 0x13, 0x63, 0xeb,
+  0x17, 0x0d, 0xdd, 0x51, 0xb7, 0xf0, 0xda, 0x49, 0xd3, 0x16, 0x55, 0x26, 0x29, 0xd4, 0x68, 0x9e,
+  0x2b, 0x16, 0xbe, 0x58, 0x7d, 0x47, 0xa1, 0xfc, 0x8f, 0xf8, 0xb8, 0xd1, 0x7a, 0xd0, 0x31, 0xce,
+  0x45, 0xcb, 0x3a, 0x8f, 0x95, 0x16, 0x04, 0x28, 0xaf, 0xd7, 0xfb, 0xca, 0xbb, 0x4b, 0x40, 0x7e,
+])
+
+const stripeLength = 64
+const stripesPerBlock = (defaultSecret.length - stripeLength) / 8
+const blockLength = stripeLength * stripesPerBlock
+const initialAccumulators: readonly Uint64[] = [
+  [0, prime32_3],
+  prime64_1,
+  prime64_2,
+  prime64_3,
+  prime64_4,
+  [0, prime32_2],
+  prime64_5,
+  [0, prime32_1],
+]
+
+/**
+ * The secret of the long input hashing. The secret also comes as 32-bit numbers for speed.
+ */
+interface LongSecret {
+  bytes: Uint8Array
+  /** For the stripe offsets (multiples of 8) */
+  stripeWords: Uint32Array
+  /** For the last stripe that has an unaligned offset */
+  lastStripeWords: Uint32Array
+}
+
+let defaultLongSecret: LongSecret | undefined
+
+function add(a: Uint64, b: Uint64): Uint64 {
+  const low = a[1] + b[1]
+  return [(a[0] + b[0] + (low > 0xffffffff ? 1 : 0)) >>> 0, low >>> 0]
+}
+
+function subtract(a: Uint64, b: Uint64): Uint64 {
+  const low = a[1] - b[1]
+  return [(a[0] - b[0] - (low < 0 ? 1 : 0)) >>> 0, low >>> 0]
+}
+
+function xor(a: Uint64, b: Uint64): Uint64 {
+  return [(a[0] ^ b[0]) >>> 0, (a[1] ^ b[1]) >>> 0]
+}
+
+function shiftRight(a: Uint64, bits: number): Uint64 {
+  return bits < 32 ? [a[0] >>> bits, ((a[1] >>> bits) | (a[0] << (32 - bits))) >>> 0] : [0, a[0] >>> (bits - 32)]
+}
+
+function shiftLeft(a: Uint64, bits: number): Uint64 {
+  return bits < 32
+    ? [((a[0] << bits) | (a[1] >>> (32 - bits))) >>> 0, (a[1] << bits) >>> 0]
+    : [(a[1] << (bits - 32)) >>> 0, 0]
+}
+
+function xorShift(a: Uint64, bits: number): Uint64 {
+  return xor(a, shiftRight(a, bits))
+}
+
+/**
+ * Multiplies two 32-bit numbers without losing precision
+ */
+function multiply32(a: number, b: number): Uint64 {
+  const a0 = a & 0xffff
+  const a1 = a >>> 16
+  const b0 = b & 0xffff
+  const b1 = b >>> 16
+  const low = a0 * b0
+  const middle1 = a1 * b0
+  const middle2 = a0 * b1
+  const middle = (low >>> 16) + (middle1 & 0xffff) + (middle2 & 0xffff)
+  return [
+    (a1 * b1 + (middle1 >>> 16) + (middle2 >>> 16) + (middle >>> 16)) >>> 0,
+    (((middle & 0xffff) << 16) | (low & 0xffff)) >>> 0,
+  ]
+}
+
+/**
+ * Multiplies two 64-bit numbers and returns the full 128-bit product: [high, low]
+ */
+function multiply128(a: Uint64, b: Uint64): [Uint64, Uint64] {
+  const lowLow = multiply32(a[1], b[1])
+  const highLow = multiply32(a[0], b[1])
+  const lowHigh = multiply32(a[1], b[0])
+  const highHigh = multiply32(a[0], b[0])
+  const word1 = lowLow[0] + highLow[1] + lowHigh[1]
+  const carry1 = Math.floor(word1 / 0x100000000)
+  const word2 = highLow[0] + lowHigh[0] + highHigh[1] + carry1
+  const carry2 = Math.floor(word2 / 0x100000000)
+  return [
+    [(highHigh[0] + carry2) >>> 0, word2 >>> 0],
+    [word1 >>> 0, lowLow[1]],
+  ]
+}
+
+/**
+ * Multiplies two 64-bit numbers modulo 2^64
+ */
+function multiply(a: Uint64, b: Uint64): Uint64 {
+  const low = multiply32(a[1], b[1])
+  return [(low[0] + Math.imul(a[0], b[1]) + Math.imul(a[1], b[0])) >>> 0, low[1]]
+}
+
+function multiplyFold(a: Uint64, b: Uint64): Uint64 {
+  const [high, low] = multiply128(a, b)
+  return xor(high, low)
+}
+
+function swap32(value: number): number {
+  return ((value >>> 24) | ((value >>> 8) & 0xff00) | ((value << 8) & 0xff0000) | (value << 24)) >>> 0
+}
+
+function swap64(value: Uint64): Uint64 {
+  return [swap32(value[1]), swap32(value[0])]
+}
+
+function read32(bytes: Uint8Array, offset: number): number {
+  return (bytes[offset] | (bytes[offset + 1] << 8) | (bytes[offset + 2] << 16) | (bytes[offset + 3] << 24)) >>> 0
+}
+
+function readWords(bytes: Uint8Array, offset: number, count: number): Uint32Array {
+  const words = new Uint32Array(count)
+  for (let i = 0; i < count; ++i) {
+    words[i] = read32(bytes, offset + i * 4)
+  }
+  return words
+}
+
+function read64(bytes: Uint8Array, offset: number): Uint64 {
+  return [read32(bytes, offset + 4), read32(bytes, offset)]
+}
+
+function toUint64(value: number): Uint64 {
+  return [Math.floor(value / 0x100000000) >>> 0, value >>> 0]
+}
+
+function xxh64Avalanche(hash: Uint64): Uint64 {
+  hash = multiply(xorShift(hash, 33), prime64_2)
+  hash = multiply(xorShift(hash, 29), prime64_3)
+  return xorShift(hash, 32)
+}
+
+function xxh3Avalanche(hash: Uint64): Uint64 {
+  return xorShift(multiply(xorShift(hash, 37), primeMx1), 32)
+}
+
+function mix16Bytes(input: Uint8Array, inputOffset: number, secretOffset: number, seed: Uint64): Uint64 {
+  return multiplyFold(
+    xor(read64(input, inputOffset), add(read64(defaultSecret, secretOffset), seed)),
+    xor(read64(input, inputOffset + 8), subtract(read64(defaultSecret, secretOffset + 8), seed)),
+  )
+}
+
+/**
+ * Mixes 2 pieces of 16 bytes into the accumulator (mutates it)
+ */
+function mix32Bytes(
+  accumulator: [Uint64, Uint64],
+  input: Uint8Array,
+  inputOffset1: number,
+  inputOffset2: number,
+  secretOffset: number,
+  seed: Uint64,
+): void {
+  accumulator[0] = xor(
+    add(accumulator[0], mix16Bytes(input, inputOffset1, secretOffset, seed)),
+    add(read64(input, inputOffset2), read64(input, inputOffset2 + 8)),
+  )
+  accumulator[1] = xor(
+    add(accumulator[1], mix16Bytes(input, inputOffset2, secretOffset + 16, seed)),
+    add(read64(input, inputOffset1), read64(input, inputOffset1 + 8)),
+  )
+}
+
+/**
+ * Makes the final 128-bit hash from an accumulator of the inputs from 17 to 240 bytes
+ */
+function finalizeMidsize([low, high]: [Uint64, Uint64], length: number, seed: Uint64): [Uint64, Uint64] {
+  const hashHigh = add(
+    add(multiply(low, prime64_1), multiply(high, prime64_4)),
+    multiply(subtract(toUint64(length), seed), prime64_2),
+  )
+  return [subtract([0, 0], xxh3Avalanche(hashHigh)), xxh3Avalanche(add(low, high))]
+}
+
+function hashUpTo16(input: Uint8Array, seed: Uint64): [Uint64, Uint64] {
+  const length = input.length
+
+  if (length > 8) {
+    const flipLow = subtract(xor(read64(defaultSecret, 32), read64(defaultSecret, 40)), seed)
+    const flipHigh = add(xor(read64(defaultSecret, 48), read64(defaultSecret, 56)), seed)
+    const inputLow = read64(input, 0)
+    let inputHigh = read64(input, length - 8)
+    let [high, low] = multiply128(xor(xor(inputLow, inputHigh), flipLow), prime64_1)
+    low = add(low, [(length - 1) << 22, 0])
+    inputHigh = xor(inputHigh, flipHigh)
+    high = add(add(high, inputHigh), multiply32(inputHigh[1], prime32_2 - 1))
+    low = xor(low, swap64(high))
+    const [finalHigh, finalLow] = multiply128(low, prime64_2)
+    return [xxh3Avalanche(add(finalHigh, multiply(high, prime64_2))), xxh3Avalanche(finalLow)]
+  }
+
+  if (length >= 4) {
+    const mixedSeed = xor(seed, [swap32(seed[1]), 0])
+    const flip = add(xor(read64(defaultSecret, 16), read64(defaultSecret, 24)), mixedSeed)
+    const keyed = xor([read32(input, length - 4), read32(input, 0)], flip)
+    let [high, low] = multiply128(keyed, add(prime64_1, [0, length << 2]))
+    high = add(high, shiftLeft(low, 1))
+    low = xor(low, shiftRight(high, 3))
+    low = xorShift(multiply(xorShift(low, 35), primeMx2), 28)
+    return [xxh3Avalanche(high), low]
+  }
+
+  if (length > 0) {
+    const combinedLow = ((input[0] << 16) | (input[length >> 1] << 24) | input[length - 1] | (length << 8)) >>> 0
+    const swapped = swap32(combinedLow)
+    const combinedHigh = ((swapped << 13) | (swapped >>> 19)) >>> 0
+    const flipLow = add([0, (read32(defaultSecret, 0) ^ read32(defaultSecret, 4)) >>> 0], seed)
+    const flipHigh = subtract([0, (read32(defaultSecret, 8) ^ read32(defaultSecret, 12)) >>> 0], seed)
+    return [xxh64Avalanche(xor([0, combinedHigh], flipHigh)), xxh64Avalanche(xor([0, combinedLow], flipLow))]
+  }
+
+  return [
+    xxh64Avalanche(xor(seed, xor(read64(defaultSecret, 80), read64(defaultSecret, 88)))),
+    xxh64Avalanche(xor(seed, xor(read64(defaultSecret, 64), read64(defaultSecret, 72)))),
+  ]
+}
+
+function hashUpTo128(input: Uint8Array, seed: Uint64): [Uint64, Uint64] {
+  const length = input.length
+  const accumulator: [Uint64, Uint64] = [multiply(toUint64(length), prime64_1), [0, 0]]
+  const rounds = Math.ceil(length / 32)
+  for (let i = rounds - 1; i >= 0; --i) {
+    mix32Bytes(accumulator, input, 16 * i, length - 16 * (i + 1), 32 * i, seed)
+  }
+  return finalizeMidsize(accumulator, length, seed)
+}
+
+function hashUpTo240(input: Uint8Array, seed: Uint64): [Uint64, Uint64] {
+  const length = input.length
+  const accumulator: [Uint64, Uint64] = [multiply(toUint64(length), prime64_1), [0, 0]]
+  for (let i = 0; i < 4; ++i) {
+    mix32Bytes(accumulator, input, 32 * i, 32 * i + 16, 32 * i, seed)
+  }
+  accumulator[0] = xxh3Avalanche(accumulator[0])
+  accumulator[1] = xxh3Avalanche(accumulator[1])
+  for (let i = 4; i < Math.floor(length / 32); ++i) {
+    mix32Bytes(accumulator, input, 32 * i, 32 * i + 16, 3 + 32 * (i - 4), seed)
+  }
+  mix32Bytes(accumulator, input, length - 16, length - 32, 136 - 17 - 16, subtract([0, 0], seed))
+  return finalizeMidsize(accumulator, length, seed)
+}
+
+/**
+ * The accumulators of the long input hashing are stored as pairs of 32-bit numbers [low, high].
+ * This function runs for every 64 bytes of a long input, so it avoids making objects.
+ */
+function accumulateStripe(
+  accumulators: Uint32Array,
+  input: Uint8Array,
+  inputOffset: number,
+  secretWords: Uint32Array,
+  secretWordOffset: number,
+) {
+  for (let i = 0; i < 8; ++i) {
+    const dataLow = read32(input, inputOffset + i * 8)
+    const dataHigh = read32(input, inputOffset + i * 8 + 4)
+    const keyLow = dataLow ^ secretWords[secretWordOffset + i * 2]
+    const keyHigh = dataHigh ^ secretWords[secretWordOffset + i * 2 + 1]
+
+    const swappedIndex = (i ^ 1) * 2
+    const swappedLow = accumulators[swappedIndex] + dataLow
+    accumulators[swappedIndex] = swappedLow
+    accumulators[swappedIndex + 1] += dataHigh + (swappedLow > 0xffffffff ? 1 : 0)
+
+    // The same as `multiply32(keyLow, keyHigh)`
+    const a0 = keyLow & 0xffff
+    const a1 = keyLow >>> 16
+    const b0 = keyHigh & 0xffff
+    const b1 = keyHigh >>> 16
+    const low = a0 * b0
+    const middle1 = a1 * b0
+    const middle2 = a0 * b1
+    const middle = (low >>> 16) + (middle1 & 0xffff) + (middle2 & 0xffff)
+    const productLow = accumulators[i * 2] + ((((middle & 0xffff) << 16) | (low & 0xffff)) >>> 0)
+    accumulators[i * 2] = productLow
+    accumulators[i * 2 + 1] +=
+      a1 * b1 + (middle1 >>> 16) + (middle2 >>> 16) + (middle >>> 16) + (productLow > 0xffffffff ? 1 : 0)
+  }
+}
+
+function scrambleAccumulators(accumulators: Uint32Array, secret: Uint8Array) {
+  const secretOffset = secret.length - stripeLength
+  for (let i = 0; i < 8; ++i) {
+    let accumulator: Uint64 = [accumulators[i * 2 + 1], accumulators[i * 2]]
+    accumulator = xor(xorShift(accumulator, 47), read64(secret, secretOffset + i * 8))
+    accumulator = multiply(accumulator, [0, prime32_1])
+    accumulators[i * 2] = accumulator[1]
+    accumulators[i * 2 + 1] = accumulator[0]
+  }
+}
+
+function mergeAccumulators(accumulators: Uint32Array, secret: Uint8Array, secretOffset: number, start: Uint64): Uint64 {
+  let result = start
+  for (let i = 0; i < 4; ++i) {
+    const accumulator1: Uint64 = [accumulators[i * 4 + 1], accumulators[i * 4]]
+    const accumulator2: Uint64 = [accumulators[i * 4 + 3], accumulators[i * 4 + 2]]
+    result = add(
+      result,
+      multiplyFold(
+        xor(accumulator1, read64(secret, secretOffset + i * 16)),
+        xor(accumulator2, read64(secret, secretOffset + i * 16 + 8)),
+      ),
+    )
+  }
+  return xxh3Avalanche(result)
+}
+
+/**
+ * The secret of a non-zero seed is the default secret mixed with the seed
+ */
+function getLongSecret(seed: Uint64): LongSecret {
+  const isDefault = seed[0] === 0 && seed[1] === 0
+  if (isDefault && defaultLongSecret) {
+    return defaultLongSecret
+  }
+
+  const bytes = new Uint8Array(defaultSecret.length)
+  const view = new DataView(bytes.buffer)
+  for (let i = 0; i < bytes.length; i += 8) {
+    const word = (i & 8 ? subtract : add)(read64(defaultSecret, i), seed)
+    view.setUint32(i, word[1], true)
+    view.setUint32(i + 4, word[0], true)
+  }
+  const secret: LongSecret = {
+    bytes,
+    stripeWords: readWords(bytes, 0, (bytes.length - 8) / 4),
+    lastStripeWords: readWords(bytes, bytes.length - stripeLength - 7, stripeLength / 4),
+  }
+
+  if (isDefault) {
+    defaultLongSecret = secret
+  }
+  return secret
+}
+
+function hashLong(input: Uint8Array, seed: Uint64): [Uint64, Uint64] {
+  const length = input.length
+  const secret = getLongSecret(seed)
+  const accumulators = new Uint32Array(16)
+  for (let i = 0; i < 8; ++i) {
+    accumulators[i * 2] = initialAccumulators[i][1]
+    accumulators[i * 2 + 1] = initialAccumulators[i][0]
+  }
+
+  const blockCount = Math.floor((length - 1) / blockLength)
+  for (let block = 0; block < blockCount; ++block) {
+    for (let stripe = 0; stripe < stripesPerBlock; ++stripe) {
+      accumulateStripe(accumulators, input, block * blockLength + stripe * stripeLength, secret.stripeWords, stripe * 2)
+    }
+    scrambleAccumulators(accumulators, secret.bytes)
+  }
+  const lastStripeCount = Math.floor((length - 1 - blockCount * blockLength) / stripeLength)
+  for (let stripe = 0; stripe < lastStripeCount; ++stripe) {
+    const inputOffset = blockCount * blockLength + stripe * stripeLength
+    accumulateStripe(accumulators, input, inputOffset, secret.stripeWords, stripe * 2)
+  }
+  accumulateStripe(accumulators, input, length - stripeLength, secret.lastStripeWords, 0)
+
+  const lengthUint64 = toUint64(length)
+  const highStart = multiply(lengthUint64, prime64_2)
+  return [
+    mergeAccumulators(accumulators, secret.bytes, secret.bytes.length - stripeLength - 11, [
+      ~highStart[0] >>> 0,
+      ~highStart[1] >>> 0,
+    ]),
+    mergeAccumulators(accumulators, secret.bytes, 11, multiply(lengthUint64, prime64_1)),
+  ]
+}
+
+function uint64ToHex(value: Uint64): string {
+  return ('00000000' + value[0].toString(16)).slice(-8) + ('00000000' + value[1].toString(16)).slice(-8)
+}
+
+/**
+ * Calculates the XXH3 128-bit hash of the UTF-8 bytes of the string.
+ * The seed is a non-negative integer up to `Number.MAX_SAFE_INTEGER`.
+ * The result is a hex string in the canonical (big-endian) form, the same as `xxh3_128_hexdigest` of Python xxhash.
+ */
+export function xxHash128(input: string, seed = 0): string {
+  const bytes = getUTF8Bytes(input)
+  const seed64 = toUint64(seed)
+  const [high, low] =
+    bytes.length <= 16
+      ? hashUpTo16(bytes, seed64)
+      : bytes.length <= 128
+      ? hashUpTo128(bytes, seed64)
+      : bytes.length <= 240
+      ? hashUpTo240(bytes, seed64)
+      : hashLong(bytes, seed64)
+  return uint64ToHex(high) + uint64ToHex(low)
+}
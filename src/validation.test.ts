@@ -0,0 +1,108 @@
+import { validateComponents } from './validation'
+
+describe('validateComponents', () => {
+  // A real-world example with JSON-transferred errors
+  const components = {
+    fonts: { value: ['Arial Unicode MS', 'Gill Sans'], duration: 60 },
+    audio: { value: 124.04347527516074, duration: 12 },
+    screenFrame: { value: [25, 0, 80, 0], duration: 1 },
+    osCpu: { duration: 0 },
+    languages: { value: [['en-US']], duration: 0 },
+    colorDepth: { value: 30, duration: 0 },
+    deviceMemory: { value: 8, duration: 0 },
+    screenResolution: { value: [1512, 982], duration: 0 },
+    hardwareConcurrency: { value: 10, duration: 0 },
+    timezone: { value: 'Europe/Berlin', duration: 1 },
+    platform: { value: 'MacIntel', duration: 0 },
+    touchSupport: { value: { maxTouchPoints: 0, touchEvent: false, touchStart: false }, duration: 0 },
+    contrast: { value: 0, duration: 0 },
+    architecture: { value: 127, duration: 0 },
+    applePay: { value: -1, duration: 0 },
+    dateTimeLocale: { value: 'en-US', duration: 0 },
+    webGlBasics: { value: -1, duration: 3 },
+    canvas: { error: { name: 'Error', message: 'Test' }, duration: 4 },
+    custom: { value: { anything: [1, 'a', null] }, duration: 0 },
+  }
+
+  it('accepts valid components', () => {
+    expect(validateComponents(components)).toEqual({ valid: true, issues: [] })
+    expect(validateComponents({})).toEqual({ valid: true, issues: [] })
+    expect(validateComponents({ ...components, canvas: { error: new Error('Test'), duration: 4 } })).toEqual({
+      valid: true,
+      issues: [],
+    })
+  })
+
+  it('rejects a malformed component list', () => {
+    expect(validateComponents(null)).toEqual({ valid: false, issues: [{ path: '', message: 'must be an object' }] })
+    expect(validateComponents([]).valid).toBeFalse()
+    expect(validateComponents('components').valid).toBeFalse()
+  })
+
+  it('rejects malformed components', () => {
+    const result = validateComponents({
+      ...components,
+      fonts: ['Arial'],
+      audio: { value: 124 },
+      canvas: { value: 1, error: { name: 'Error' }, duration: 0 },
+      timezone: { error: 'Error', duration: 0 },
+      custom: { value: () => undefined, duration: 0 },
+    })
+    expect(result).toEqual({
+      valid: false,
+      issues: [
+        { path: 'fonts', message: 'must be an object' },
+        { path: 'audio', message: 'must have a non-negative duration' },
+        { path: 'timezone', message: 'must have an object error' },
+        { path: 'canvas', message: "mustn't have both a value and an error" },
+        { path: 'custom', message: 'must have a JSON-compatible value' },
+      ],
+    })
+  })
+
+  it('rejects implausible values', () => {
+    const result = validateComponents({
+      ...components,
+      hardwareConcurrency: { value: 1000, duration: 0 },
+      deviceMemory: { value: -8, duration: 0 },
+      colorDepth: { value: 24.5, duration: 0 },
+      contrast: { value: 2, duration: 0 },
+      touchSupport: { value: { maxTouchPoints: 5, touchEvent: 'yes', touchStart: true }, duration: 0 },
+      webGlBasics: { value: 'WebKit', duration: 0 },
+      constructor: { value: 1, duration: 0 },
+    })
+    expect(result.valid).toBeFalse()
+    expect(result.issues).toEqual([
+      { path: 'colorDepth.value', message: 'must be an integer from 1 to 64' },
+      { path: 'deviceMemory.value', message: 'must be a number from 0.125 to 1024' },
+      { path: 'hardwareConcurrency.value', message: 'must be an integer from 1 to 256' },
+      { path: 'touchSupport.value', message: 'touchEvent must be a boolean' },
+      { path: 'contrast.value', message: 'must be one of -1, 0, 1, 10' },
+      { path: 'webGlBasics.value', message: 'must be one of -1, -2 or an object' },
+    ])
+  })
+
+  it('checks that the screen frame fits the screen', () => {
+    const withScreen = (screenResolution: unknown, screenFrame: unknown) =>
+      validateComponents({
+        screenResolution: { value: screenResolution, duration: 0 },
+        screenFrame: { value: screenFrame, duration: 0 },
+      })
+
+    expect(withScreen([1920, 1080], [0, 0, 40, 0]).valid).toBeTrue()
+    // Rotated screen
+    expect(withScreen([1080, 1920], [0, 0, 40, 0]).valid).toBeTrue()
+    // A secondary monitor on the right
+    expect(withScreen([1920, 1080], [0, -1920, 40, 1920]).valid).toBeTrue()
+    expect(withScreen([1920, 1080], [null, null, null, null]).valid).toBeTrue()
+    expect(withScreen([null, null], [0, 0, 5000, 0]).valid).toBeTrue()
+
+    expect(withScreen([1920, 1080], [0, 0, 3000, 0]).issues).toEqual([
+      { path: 'screenFrame.value', message: "doesn't fit screenResolution" },
+    ])
+    expect(withScreen([1920, 1080], [0, 100, 0, -200]).valid).toBeFalse()
+    expect(withScreen([1920, 0], [0, 0, 0, 0]).issues).toEqual([
+      { path: 'screenResolution.value', message: 'item 1 must be one of null or a number from 1 to 32768' },
+    ])
+  })
+})
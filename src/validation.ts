@@ -0,0 +1,153 @@
+import { FrameSize } from './sources/screen_frame'
+import { checkValue, currentSchemaVersion, getSourceSchemas } from './schema'
+
+type ScreenResolution = [number | null, number | null]
+
+export interface ComponentIssue {
+  /** The path to the wrong item, for example `hardwareConcurrency.value` */
+  path: string
+  /** A human-readable description of the problem */
+  message: string
+}
+
+export interface ComponentsValidation {
+  /** Whether there are no issues */
+  valid: boolean
+  issues: ComponentIssue[]
+}
+
+/**
+ * Checks several components together. Called only when all the components have valid values.
+ */
+type ConsistencyValidator = (values: Readonly<Record<string, unknown>>) => ComponentIssue | undefined
+
+// The screen frame sides are rounded, so 2 sides can exceed the real value by the rounding precision
+const frameSideTolerance = 10
+
+const consistencyValidators: readonly ConsistencyValidator[] = [
+  // The screen frame is the space taken by the OS interface (e.g. the taskbar), so it must fit the screen.
+  // A single side can be negative or exceed the screen on multi-monitor setups, but the opposite sides sum up to
+  // the difference between the screen size and the available size.
+  ({ screenResolution, screenFrame }) => {
+    if (!screenResolution || !screenFrame) {
+      return undefined
+    }
+    const [size1, size2] = screenResolution as ScreenResolution
+    const [top, right, bottom, left] = screenFrame as FrameSize
+    // The screen resolution is sorted, so it's unknown which side is the width
+    const maxSize = Math.max(size1 ?? 0, size2 ?? 0)
+    const fits = (side1: number | null, side2: number | null) =>
+      side1 === null ||
+      side2 === null ||
+      (side1 + side2 >= -frameSideTolerance && side1 + side2 <= maxSize + frameSideTolerance)
+    return maxSize === 0 || (fits(top, bottom) && fits(left, right))
+      ? undefined
+      : { path: 'screenFrame.value', message: "doesn't fit screenResolution" }
+  },
+]
+
+/**
+ * Checks that the components have the shape that the agent makes, and that the built-in components have plausible
+ * values, for example `hardwareConcurrency` isn't 1000. Use it on a server to reject forged or corrupted components.
+ * The built-in components are checked against the schemas of the given version (see `migrateComponents`).
+ * Unknown components (e.g. made by custom entropy sources) are checked only for the shape. Missing components are fine.
+ * The errors may be either `Error` instances or plain objects (errors turn to plain objects in JSON).
+ * Designed for both browser and server environments.
+ */
+export function validateComponents(components: unknown, schemaVersion = currentSchemaVersion): ComponentsValidation {
+  const sourceSchemas = getSourceSchemas(schemaVersion)
+  if (!sourceSchemas) {
+    throw new RangeError(`Unknown component schema version: ${schemaVersion}`)
+  }
+
+  const issues: ComponentIssue[] = []
+
+  if (typeof components !== 'object' || components === null || Array.isArray(components)) {
+    issues.push({ path: '', message: 'must be an object' })
+    return { valid: false, issues }
+  }
+
+  const validValues: Record<string, unknown> = {}
+
+  for (const key of Object.keys(components)) {
+    const component = (components as Record<string, unknown>)[key]
+    const componentIssue = validateComponentShape(component)
+    if (componentIssue) {
+      issues.push({ path: key, message: componentIssue })
+      continue
+    }
+    const { value, error } = component as Record<string, unknown>
+    if (error !== undefined) {
+      continue
+    }
+    // The own property check prevents treating `Object.prototype` properties (e.g. `constructor`) as schemas
+    const valueIssue = Object.prototype.hasOwnProperty.call(sourceSchemas, key)
+      ? checkValue(value, sourceSchemas[key])
+      : undefined
+    if (valueIssue) {
+      issues.push({ path: `${key}.value`, message: valueIssue })
+    } else {
+      validValues[key] = value
+    }
+  }
+
+  for (const validator of consistencyValidators) {
+    const issue = validator(validValues)
+    if (issue) {
+      issues.push(issue)
+    }
+  }
+
+  return { valid: issues.length === 0, issues }
+}
+
+/**
+ * A value component loses the `value` field in JSON when the value is `undefined`
+ */
+function validateComponentShape(component: unknown): string | undefined {
+  if (!isObject(component)) {
+    return 'must be an object'
+  }
+  const { value, error, duration } = component as Record<string, unknown>
+  if (!isFiniteNumber(duration) || duration < 0) {
+    return 'must have a non-negative duration'
+  }
+  if (error !== undefined) {
+    if ('value' in (component as Record<string, unknown>)) {
+      return "mustn't have both a value and an error"
+    }
+    return isObject(error) ? undefined : 'must have an object error'
+  }
+  return value === undefined || isJsonCompatible(value) ? undefined : 'must have a JSON-compatible value'
+}
+
+function isObject(value: unknown): boolean {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && isFinite(value)
+}
+
+function isJsonCompatible(value: unknown): boolean {
+  switch (typeof value) {
+    case 'string':
+    case 'boolean':
+      return true
+    case 'number':
+      return isFinite(value)
+    case 'object':
+      if (value === null) {
+        return true
+      }
+      if (Array.isArray(value)) {
+        return value.every(isJsonCompatible)
+      }
+      return Object.keys(value).every((key) => {
+        const item = (value as Record<string, unknown>)[key]
+        return item === undefined || isJsonCompatible(item)
+      })
+    default:
+      return false
+  }
+}